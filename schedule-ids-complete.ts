@@ -256,17 +256,10 @@ export function getScheduleId(
 }
 
 /**
- * Helper function to get day of week name from Date object
- */
-export function getDayOfWeekName(date: Date): DayOfWeek {
-  const days: DayOfWeek[] = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  return days[date.getDay()];
-}
-
-/**
- * Example usage:
+ * Example usage (days of week come from src/time-cr.ts, which works on
+ * Costa Rica calendar dates regardless of the host timezone):
  *
- * const targetDate = new Date('2025-11-19'); // Wednesday
- * const dayName = getDayOfWeekName(targetDate); // "Wednesday"
+ * const targetDate = parseDateInCR('2025-11-19'); // Wednesday
+ * const dayName = getDayOfWeek(targetDate); // "Wednesday"
  * const scheduleId = getScheduleId('5', dayName, "06:00 AM - 07:00 AM"); // "241"
  */
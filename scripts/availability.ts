@@ -0,0 +1,149 @@
+/**
+ * Tennis Court Reservation Bot - Slot Availability
+ *
+ * Shows every slot of a court on a date with its schedule ID and status
+ * (yours / not booked by you / not yet open / past), from the reservation
+ * form and the account's reservations. Other members' bookings are not
+ * shown; the API does not expose them:
+ *
+ *   node dist/scripts/availability.js --court 1 --date 2025-11-19
+ *
+ * Without --date, shows the date the court's next booking window opens for.
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { MobileAPIClient, getApiBaseUrl } from "../src/mobile-api-client";
+import { ConfigError, loadConfig } from "../src/config";
+import { computeAvailability, type SlotStatus } from "../src/availability";
+import {
+  addDaysCR,
+  crDateFromInstant,
+  getDayOfWeek,
+  nextMidnightCRMs,
+  parseDateInCR,
+  todayCR,
+  ymdCR,
+} from "../src/time-cr";
+import { courtArgToAreaId, getArgValue } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  court: getArgValue("--court"),
+  date: getArgValue("--date"),
+};
+
+const STATUS_LABELS: Record<SlotStatus, string> = {
+  yours: "🎾 yours",
+  "not-booked": "➖ not booked by you",
+  "not-open": "📅 not yet open",
+  past: "⌛ past",
+};
+
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage: availability --court <1|2> [--date YYYY-MM-DD]`,
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const areaId = courtArgToAreaId(ARGS.court);
+  if (!areaId) {
+    usage("--court must be 1 or 2");
+  }
+
+  let config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  if (!config.username || !config.password) {
+    console.error(
+      "❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)",
+    );
+    process.exit(1);
+  }
+
+  const court =
+    config.courts.court1.areaId === areaId
+      ? config.courts.court1
+      : config.courts.court2;
+
+  // Default: the date the next midnight opens for this court
+  let date;
+  try {
+    date = ARGS.date
+      ? parseDateInCR(ARGS.date)
+      : addDaysCR(crDateFromInstant(nextMidnightCRMs()), court.daysAhead);
+  } catch (error) {
+    usage(error instanceof Error ? error.message : String(error));
+  }
+  if (ymdCR(date) < ymdCR(todayCR())) {
+    usage(`${ymdCR(date)} is in the past`);
+  }
+
+  const client = new MobileAPIClient(
+    config.username,
+    config.password,
+    false,
+    getApiBaseUrl(),
+    config.api,
+  );
+  const day = await client.getAvailability(areaId, ymdCR(date));
+  client.close();
+  if (day.scheduleError) {
+    console.warn(
+      `⚠️  Could not read the slots from the reservation form (${day.scheduleError});\n` +
+        "   showing the local schedule mapping only.",
+    );
+  }
+
+  const report = computeAvailability(areaId, date, day, court.daysAhead);
+  const opensAt = ymdCR(crDateFromInstant(report.opensAtMs));
+
+  console.log(
+    `\n🎾 ${court.name} - ${getDayOfWeek(date)} ${report.date} ` +
+      `(booking ${report.opensAtMs <= Date.now() ? "opened" : "opens"} ${opensAt} 00:00 CR)\n`,
+  );
+
+  if (report.slots.length === 0) {
+    console.log("   (no slots on this weekday)");
+    return;
+  }
+
+  for (const slot of report.slots) {
+    console.log(
+      `   ${slot.timeSlot.padEnd(19)}  schedule ${slot.scheduleId.padEnd(4)}  ` +
+        `${STATUS_LABELS[slot.status]}${slot.detail ? `  (${slot.detail})` : ""}`,
+    );
+  }
+
+  console.log(
+    "\nℹ️  Other members' reservations are not shown: a slot not booked by\n" +
+      "   you may still be taken.",
+  );
+}
+
+// Run
+main().catch((error) => {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+});
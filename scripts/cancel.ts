@@ -0,0 +1,155 @@
+/**
+ * Tennis Court Reservation Bot - Cancel Reservation
+ *
+ * Releases a court the bot (or anyone on the account) booked, either by
+ * reservation ID or by court + date + time slot:
+ *
+ *   node dist/scripts/cancel.js --unverified --id 123456
+ *   node dist/scripts/cancel.js --unverified --court 1 --date 2025-11-19 --time "06:00 AM - 07:00 AM"
+ *
+ * UNVERIFIED: the cancel request was never captured from the mobile app
+ * (see cancelReservation), so it only runs with --unverified, and success
+ * is judged by the reservation disappearing from the list.
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { parseDateInCR } from "../src/time-cr";
+import { MobileAPIClient } from "../src/mobile-api-client";
+import { resolveScheduleId } from "../src/schedule-resolver";
+import { classifyMessage, getStatusIcon } from "../src/message-classifier";
+import { courtArgToAreaId, getArgValue, hasFlag } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  reservationId: getArgValue("--id"),
+  court: getArgValue("--court"),
+  date: getArgValue("--date"),
+  time: getArgValue("--time"),
+  unverified: hasFlag("--unverified"),
+};
+
+function usage(): never {
+  console.error(
+    "Usage:\n" +
+      "  cancel --unverified --id <reservationId>\n" +
+      '  cancel --unverified --court <1|2> --date <YYYY-MM-DD> --time "06:00 AM - 07:00 AM"',
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// RESERVATION LOOKUP
+// ============================================================================
+
+/**
+ * Find the reservation ID for a court + date + slot by resolving the
+ * schedule ID and matching it against the account's reservation list
+ */
+async function findReservationId(
+  client: MobileAPIClient,
+  areaId: "5" | "7",
+  date: string,
+  timeSlot: string,
+): Promise<string> {
+  const scheduleId = resolveScheduleId(areaId, parseDateInCR(date), timeSlot);
+  console.log(
+    `🔎 Looking up reservation: area=${areaId}, date=${date}, schedule=${scheduleId}`,
+  );
+
+  const reservations = await client.listReservations();
+  const match = reservations.find(
+    (r) =>
+      r.areaId === areaId &&
+      r.date === date &&
+      (r.scheduleId === scheduleId || r.timeSlot === timeSlot),
+  );
+
+  if (!match) {
+    throw new Error(
+      `No reservation found for area ${areaId} on ${date} at ${timeSlot}`,
+    );
+  }
+
+  return match.reservationId;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const username = process.env.TENNIS_USERNAME;
+  const password = process.env.TENNIS_PASSWORD;
+
+  if (!username || !password) {
+    console.error(
+      "❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)",
+    );
+    process.exit(1);
+  }
+
+  if (!ARGS.unverified) {
+    console.error(
+      "❌ The cancel request has not been verified against the mobile app yet\n" +
+        "   (see api-endpoints-discovered.md). Pass --unverified to try it anyway,\n" +
+        "   then check the reservation in the app.",
+    );
+    process.exit(1);
+  }
+
+  const client = new MobileAPIClient(username, password);
+
+  let reservationId = ARGS.reservationId;
+  if (!reservationId) {
+    const areaId = courtArgToAreaId(ARGS.court);
+    if (!areaId || !ARGS.date || !ARGS.time) {
+      usage();
+    }
+    reservationId = await findReservationId(
+      client,
+      areaId,
+      ARGS.date,
+      ARGS.time,
+    );
+  }
+
+  console.log(`🗑️  Cancelling reservation ${reservationId}...`);
+  const result = await client.cancelReservation(reservationId);
+  const classified = classifyMessage(result.message);
+  const icon = getStatusIcon(classified.type);
+
+  console.log(`${icon} ${classified.type} - ${classified.friendlyMessage}`);
+  if (classified.rawMessage) {
+    console.log(`   Server: ${classified.rawMessage}`);
+  }
+
+  // The only real confirmation: the reservation is gone from the list
+  const stillListed = (await client.listReservations()).some(
+    (r) => r.reservationId === reservationId,
+  );
+  if (stillListed) {
+    console.log(
+      `⚠️  Reservation ${reservationId} is still listed: not cancelled`,
+    );
+  } else {
+    console.log(
+      `🔎 Reservation ${reservationId} is not in the reservation list`,
+    );
+  }
+
+  process.exit(classified.type === "CANCELLED" && !stillListed ? 0 : 1);
+}
+
+// Run
+main().catch((error) => {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+});
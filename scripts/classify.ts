@@ -0,0 +1,84 @@
+/**
+ * Tennis Court Reservation Bot - Classify Server Messages
+ *
+ * Shows how a server response is classified, or checks the whole message
+ * corpus (exit code 1 on any mismatch):
+ *
+ *   node dist/scripts/classify.js "Usuario o contraseña incorrectos."
+ *   node dist/scripts/classify.js --check
+ */
+
+import {
+  classifyMessage,
+  getMessageTypeInfo,
+  getStatusIcon,
+} from "../src/message-classifier";
+import { MESSAGE_CORPUS } from "../src/message-corpus";
+import { hasFlag } from "../src/cli-args";
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+function classify(message: string) {
+  const c = classifyMessage(message);
+  console.log(`\n${getStatusIcon(c.type)} ${c.type} - ${c.friendlyMessage}`);
+  console.log(
+    `   retryable: ${c.retryable}, terminal: ${c.terminal}, action: ${c.action}`,
+  );
+  if (c.suggestion) {
+    console.log(`   💡 ${c.suggestion}`);
+  }
+  if (!c.verified) {
+    console.log(
+      `   ⚠️  Unverified: no captured server response for ${c.type} yet`,
+    );
+  }
+}
+
+function checkCorpus() {
+  const failures = MESSAGE_CORPUS.filter(
+    (entry) => classifyMessage(entry.message).type !== entry.type,
+  );
+
+  for (const entry of failures) {
+    console.log(
+      `❌ expected ${entry.type}, got ${classifyMessage(entry.message).type}: "${entry.message}"`,
+    );
+  }
+
+  if (failures.length > 0) {
+    console.log(
+      `\n❌ ${failures.length}/${MESSAGE_CORPUS.length} corpus messages misclassified`,
+    );
+    process.exit(1);
+  }
+  console.log(
+    `✅ All ${MESSAGE_CORPUS.length} corpus messages classified as expected`,
+  );
+
+  // Expected wording only proves the patterns match text written for them
+  const unverified = [
+    ...new Set(MESSAGE_CORPUS.map((entry) => entry.type)),
+  ].filter((type) => !getMessageTypeInfo(type).verified);
+  if (unverified.length > 0) {
+    console.log(
+      `⚠️  No production message for: ${unverified.join(", ")} (unverified)`,
+    );
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const message = process.argv.slice(2).find((arg) => !arg.startsWith("--"));
+
+if (hasFlag("--check")) {
+  checkCorpus();
+} else if (message) {
+  classify(message);
+} else {
+  console.error('Usage: classify "<server message>" | classify --check');
+  process.exit(1);
+}
@@ -0,0 +1,71 @@
+/**
+ * Tennis Court Reservation Bot - Config Tools
+ *
+ * Usage:
+ *   node dist/scripts/config.js validate [--file path/to/config.json]
+ *
+ * Runs the same checks as the startup of reserve.ts (schema + every slot has
+ * a schedule ID for its court and weekday) without booking anything.
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { ConfigError, getConfigPath, loadConfig } from "../src/config";
+import { getScheduleMapping } from "../src/schedule-resolver";
+import { getArgValue } from "../src/cli-args";
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+function validate(file: string) {
+  console.log(`\n⚙️  Validating ${file}\n`);
+
+  let config;
+  try {
+    config = loadConfig(file);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  for (const court of [config.courts.court1, config.courts.court2]) {
+    const mapping = getScheduleMapping(court.areaId as "5" | "7");
+    console.log(
+      `🎾 ${court.name} (area ${court.areaId}), ${court.daysAhead} days ahead:`,
+    );
+    for (const [day, slot] of Object.entries(court.slots)) {
+      console.log(
+        `   ${day.padEnd(9)} ${slot}  → schedule ${mapping[day][slot]}`,
+      );
+    }
+  }
+
+  console.log(`\n📧 Email: ${config.emailFrom} → ${config.emailTo}`);
+  console.log("\n✅ Config is valid");
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const command = process.argv[2];
+const file = getArgValue("--file")
+  ? path.resolve(getArgValue("--file")!)
+  : getConfigPath();
+
+switch (command) {
+  case "validate":
+    validate(file);
+    break;
+  default:
+    console.error("Usage: config validate [--file path/to/config.json]");
+    process.exit(1);
+}
@@ -0,0 +1,87 @@
+/**
+ * Tennis Court Reservation Bot - Local Control API
+ *
+ * Serves JSON endpoints (book, list, cancel, schedule IDs, latest run) for
+ * other household tools, authenticated with the CONTROL_API_TOKEN bearer
+ * token. Listens on 127.0.0.1 unless --host says otherwise:
+ *
+ *   node dist/scripts/control-api.js [--port 8790] [--host 127.0.0.1]
+ *   curl -H "Authorization: Bearer $CONTROL_API_TOKEN" localhost:8790/reservations
+ *
+ * See src/control-api.ts for the endpoints.
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { createControlApiServer } from "../src/control-api";
+import { ConfigError, getConfigPath, loadConfig } from "../src/config";
+import { Logger, isLogLevel } from "../src/logger";
+import { newRunId } from "../src/history";
+import { getArgValue } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  port: parseInt(getArgValue("--port") ?? "8790", 10),
+  host: getArgValue("--host") ?? "127.0.0.1",
+};
+
+// Shorter tokens are too easy to guess
+const MIN_TOKEN_LENGTH = 16;
+
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage: control-api [--port 8790] [--host 127.0.0.1]\n` +
+      `       (CONTROL_API_TOKEN must be set, at least ${MIN_TOKEN_LENGTH} characters)`,
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+const LOG_DIR = path.join(__dirname, "..", "..", "logs");
+const logger = Logger.create({
+  runId: newRunId(),
+  dailyDir: LOG_DIR,
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+});
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const token = process.env.CONTROL_API_TOKEN ?? "";
+if (token.length < MIN_TOKEN_LENGTH) {
+  usage("CONTROL_API_TOKEN is missing or too short");
+}
+if (!Number.isInteger(ARGS.port) || ARGS.port <= 0 || ARGS.port > 65535) {
+  usage(`Invalid --port "${getArgValue("--port")}"`);
+}
+
+// Fail fast on a broken config; requests re-read it so edits apply live
+try {
+  logger.setLevel(loadConfig().logging.level);
+} catch (error) {
+  if (error instanceof ConfigError) {
+    logger.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+const server = createControlApiServer({ token, loadConfig, logger });
+
+server.listen(ARGS.port, ARGS.host, () => {
+  logger.info(
+    `🌐 Control API on http://${ARGS.host}:${ARGS.port} (config ${getConfigPath()})`,
+    { event: "control_start" },
+  );
+});
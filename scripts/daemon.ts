@@ -0,0 +1,344 @@
+/**
+ * Tennis Court Reservation Bot - Daemon
+ *
+ * Stays resident instead of a crontab entry: computes the upcoming booking
+ * windows from each court's daysAhead and weekday slots, and starts
+ * reserve.js `daemon.leadMs` before each one (reserve.js then runs the
+ * preflight, calibration, warm-up and the booking at midnight).
+ *
+ * Usage:
+ *   node dist/scripts/daemon.js run      # Stay resident (e.g. under systemd)
+ *   node dist/scripts/daemon.js status   # Next scheduled action and last run
+ *   node dist/scripts/daemon.js plan     # Booking windows of the next 7 days
+ *
+ * The config is re-read before every window, and the schedule is recomputed
+ * from the clock on every start. A window whose reserve.js was already
+ * started (by this or a previous instance) is never started twice.
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+import { spawn } from "child_process";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env"), quiet: true });
+
+import { ConfigError, getConfigPath, loadConfig } from "../src/config";
+import {
+  getDaemonStatusPath,
+  isProcessAlive,
+  readDaemonStatus,
+  upcomingBookingWindows,
+  writeDaemonStatus,
+  type BookingWindow,
+  type DaemonStatus,
+} from "../src/daemon";
+import { formatInstantCR } from "../src/time-cr";
+import { Logger, isLogLevel } from "../src/logger";
+import { newRunId } from "../src/history";
+import { hasFlag } from "../src/cli-args";
+import type { AppConfig } from "../src/types";
+
+const RESERVE_SCRIPT = path.join(__dirname, "reserve.js");
+const LOG_DIR = path.join(__dirname, "..", "..", "logs");
+
+// Re-check the clock and refresh the status file at least this often
+const HEARTBEAT_MS = 60_000;
+
+const NEXT_ACTION = "start reserve.js (preflight, warm-up, booking)";
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+const RUN_ID = newRunId();
+
+// The daemon outlives a day: the logger moves to the next day's file at CR
+// midnight
+const logger = Logger.create({
+  runId: RUN_ID,
+  dailyDir: LOG_DIR,
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+});
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+function loadConfigOrExit(): AppConfig {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+function describeWindow(window: BookingWindow): string {
+  return window.targets
+    .map((t) => `${t.courtName} ${t.date} (${t.dayOfWeek}) ${t.timeSlot}`)
+    .join(", ");
+}
+
+/**
+ * Start reserve.js for a window and wait for it to exit
+ */
+function runReserve(status: DaemonStatus, window: BookingWindow) {
+  return new Promise<void>((resolve) => {
+    const child = spawn(process.execPath, [RESERVE_SCRIPT], {
+      stdio: "inherit",
+    });
+
+    status.state = "running";
+    status.lastRun = {
+      window: new Date(window.opensAtMs).toISOString(),
+      pid: child.pid ?? null,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      exitCode: null,
+    };
+    saveStatus(status);
+    const heartbeat = setInterval(() => saveStatus(status), HEARTBEAT_MS);
+    logger.info(`🚀 Started reserve.js (pid ${child.pid})`, {
+      event: "daemon_run",
+      window: status.lastRun.window,
+    });
+
+    const finish = (exitCode: number | null, detail: string) => {
+      clearInterval(heartbeat);
+      status.state = "waiting";
+      status.lastRun!.finishedAt = new Date().toISOString();
+      status.lastRun!.exitCode = exitCode;
+      saveStatus(status);
+      const fields = { event: "daemon_run_end", exitCode };
+      if (exitCode === 0) {
+        logger.info(`🏁 reserve.js finished: ${detail}`, fields);
+      } else {
+        logger.error(`🏁 reserve.js failed: ${detail}`, fields);
+      }
+      resolve();
+    };
+
+    child.on("error", (error) => finish(null, String(error)));
+    child.on("exit", (code, signal) =>
+      finish(code, signal ? `killed by ${signal}` : `exit code ${code}`),
+    );
+  });
+}
+
+function saveStatus(status: DaemonStatus) {
+  status.updatedAt = new Date().toISOString();
+  try {
+    writeDaemonStatus(status);
+  } catch (error) {
+    logger.warn(`⚠️  Could not write ${getDaemonStatusPath()}: ${error}`);
+  }
+}
+
+async function run() {
+  let config = loadConfigOrExit();
+  logger.setLevel(config.logging.level);
+
+  const previous = readDaemonStatus();
+  if (
+    previous &&
+    previous.state !== "stopped" &&
+    previous.pid !== process.pid &&
+    isProcessAlive(previous.pid)
+  ) {
+    console.error(`❌ Daemon already running (pid ${previous.pid})`);
+    process.exit(1);
+  }
+
+  const status: DaemonStatus = {
+    pid: process.pid,
+    startedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    state: "waiting",
+    next: null,
+    lastRun: previous?.lastRun ?? null,
+  };
+
+  // A reserve.js started before a restart is left alone: its window is
+  // skipped rather than booked a second time
+  const orphan = status.lastRun;
+  if (orphan && orphan.finishedAt === null) {
+    const alive = orphan.pid !== null && isProcessAlive(orphan.pid);
+    logger.warn(
+      `⚠️  reserve.js for the window at ${formatInstantCR(Date.parse(orphan.window))} CR ` +
+        (alive
+          ? `is still running (pid ${orphan.pid})`
+          : "did not report back (daemon restarted during the run)"),
+      { event: "daemon_orphan", pid: orphan.pid },
+    );
+  }
+
+  const shutdown = (signal: string) => {
+    status.state = "stopped";
+    status.next = null;
+    saveStatus(status);
+    logger.info(`🛑 Daemon stopped (${signal})`, { event: "daemon_stop" });
+    process.exit(0);
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+  logger.info(
+    `🤖 Daemon started (pid ${process.pid}, config ${getConfigPath()}, ` +
+      `status ${getDaemonStatusPath()})`,
+    { event: "daemon_start" },
+  );
+
+  let announced: number | "none" | null = null;
+
+  for (;;) {
+    // Pick up config edits without a restart
+    try {
+      config = loadConfig();
+      logger.setLevel(config.logging.level);
+    } catch (error) {
+      logger.error(
+        `❌ Config reload failed, keeping the previous one: ${error}`,
+      );
+    }
+
+    const startedWindow = status.lastRun?.window;
+    const next = upcomingBookingWindows(config, config.daemon.leadMs).find(
+      (w) => new Date(w.opensAtMs).toISOString() !== startedWindow,
+    );
+
+    status.next = next
+      ? {
+          action: NEXT_ACTION,
+          at: new Date(Math.max(next.startAtMs, Date.now())).toISOString(),
+          window: new Date(next.opensAtMs).toISOString(),
+          targets: next.targets,
+        }
+      : null;
+    saveStatus(status);
+
+    if (!next) {
+      if (announced !== "none") {
+        logger.warn("⚠️  No slot configured for the next 7 days");
+        announced = "none";
+      }
+      await sleep(HEARTBEAT_MS);
+      continue;
+    }
+
+    if (announced !== next.opensAtMs) {
+      announced = next.opensAtMs;
+      logger.info(
+        `⏰ Next: ${formatInstantCR(next.startAtMs)} CR for the window at ` +
+          `${formatInstantCR(next.opensAtMs)} CR: ${describeWindow(next)}`,
+        { event: "daemon_next", window: status.next!.window },
+      );
+    }
+
+    const waitMs = next.startAtMs - Date.now();
+    if (waitMs > 0) {
+      await sleep(Math.min(waitMs, HEARTBEAT_MS));
+      continue;
+    }
+
+    await runReserve(status, next);
+  }
+}
+
+function printStatus() {
+  const status = readDaemonStatus();
+  if (hasFlag("--json")) {
+    console.log(JSON.stringify(status, null, 2));
+    return;
+  }
+  if (!status) {
+    console.log(`No daemon status at ${getDaemonStatusPath()}`);
+    process.exit(1);
+  }
+
+  const alive = status.state !== "stopped" && isProcessAlive(status.pid);
+  const ageS = Math.round((Date.now() - Date.parse(status.updatedAt)) / 1000);
+  console.log(
+    `\n🤖 Daemon ${alive ? status.state : "not running"} (pid ${status.pid}), ` +
+      `updated ${ageS}s ago`,
+  );
+  if (alive && ageS * 1000 > 3 * HEARTBEAT_MS) {
+    console.log("⚠️  Status is stale: the daemon may be stuck");
+  }
+
+  if (status.next) {
+    console.log(
+      `\n⏰ Next: ${status.next.action}\n` +
+        `   at ${formatInstantCR(Date.parse(status.next.at))} CR, ` +
+        `for the window at ${formatInstantCR(Date.parse(status.next.window))} CR`,
+    );
+    for (const t of status.next.targets) {
+      console.log(
+        `   🎾 ${t.courtName}: ${t.date} (${t.dayOfWeek}) ${t.timeSlot}`,
+      );
+    }
+  }
+
+  if (status.lastRun) {
+    const r = status.lastRun;
+    const result =
+      r.finishedAt === null
+        ? r.pid !== null && isProcessAlive(r.pid)
+          ? "running"
+          : "did not report back"
+        : `exit code ${r.exitCode}`;
+    console.log(
+      `\n🏁 Last run: window ${formatInstantCR(Date.parse(r.window))} CR, ` +
+        `started ${formatInstantCR(Date.parse(r.startedAt))} CR, ${result}`,
+    );
+  }
+}
+
+function printPlan() {
+  const config = loadConfigOrExit();
+  const windows = upcomingBookingWindows(config, config.daemon.leadMs);
+
+  console.log(
+    `\n📅 Booking windows (reserve.js starts ${config.daemon.leadMs / 1000}s before midnight):\n`,
+  );
+  if (windows.length === 0) {
+    console.log("   (no slot configured for the next 7 days)");
+  }
+  for (const w of windows) {
+    console.log(`   ${formatInstantCR(w.opensAtMs)} CR`);
+    for (const t of w.targets) {
+      console.log(
+        `      🎾 ${t.courtName}: ${t.date} (${t.dayOfWeek}) ${t.timeSlot}`,
+      );
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+switch (process.argv[2] ?? "run") {
+  case "run":
+    run().catch((error) => {
+      console.error(`Fatal error: ${error}`);
+      process.exit(1);
+    });
+    break;
+  case "status":
+    printStatus();
+    break;
+  case "plan":
+    printPlan();
+    break;
+  default:
+    console.error("Usage: daemon [run|status [--json]|plan]");
+    process.exit(1);
+}
@@ -0,0 +1,155 @@
+/**
+ * Tennis Court Reservation Bot - History Dashboard
+ *
+ * Serves a local web page with upcoming bookings per court, recent runs and
+ * the weekly slot plan (no external assets, works offline):
+ *
+ *   node dist/scripts/dashboard.js [--port 8789] [--host 127.0.0.1] [--runs 20]
+ *
+ * Then open http://localhost:8789 (JSON at /data.json).
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import {
+  createDashboardServer,
+  groupRuns,
+  upcomingReservations,
+  type DashboardData,
+} from "../src/dashboard";
+import {
+  MobileAPIClient,
+  getApiBaseUrl,
+  type Reservation,
+} from "../src/mobile-api-client";
+import { ConfigError, getConfigPath, loadConfig } from "../src/config";
+import { newRunId, readHistory } from "../src/history";
+import { Logger, isLogLevel } from "../src/logger";
+import { getArgValue } from "../src/cli-args";
+import type { AppConfig } from "../src/types";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  port: parseInt(getArgValue("--port") ?? "8789", 10),
+  host: getArgValue("--host") ?? "127.0.0.1",
+  runs: parseInt(getArgValue("--runs") ?? "20", 10),
+};
+
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage: dashboard [--port 8789] [--host 127.0.0.1] [--runs 20]`,
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+const LOG_DIR = path.join(__dirname, "..", "..", "logs");
+const logger = Logger.create({
+  runId: newRunId(),
+  dailyDir: LOG_DIR,
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+});
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+// Reload the page as often as you like: the SAS server is asked at most
+// once per this interval
+const RESERVATIONS_CACHE_MS = 60_000;
+
+let cachedReservations: { atMs: number; value: Reservation[] } | null = null;
+
+async function fetchReservations(config: AppConfig): Promise<Reservation[]> {
+  if (
+    cachedReservations &&
+    Date.now() - cachedReservations.atMs < RESERVATIONS_CACHE_MS
+  ) {
+    return cachedReservations.value;
+  }
+  if (!config.username || !config.password) {
+    throw new Error("Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)");
+  }
+
+  const client = new MobileAPIClient(
+    config.username,
+    config.password,
+    false,
+    getApiBaseUrl(),
+    config.api,
+    logger,
+  );
+  try {
+    const value = await client.listReservations();
+    cachedReservations = { atMs: Date.now(), value };
+    return value;
+  } finally {
+    client.close();
+  }
+}
+
+async function loadData(): Promise<DashboardData> {
+  const config = loadConfig();
+  const courts = [config.courts.court1, config.courts.court2];
+
+  let reservations: Reservation[] | null = null;
+  let reservationsError: string | null = null;
+  try {
+    reservations = upcomingReservations(
+      await fetchReservations(config),
+      courts,
+    );
+  } catch (error) {
+    // Still show the runs and the plan
+    reservationsError = error instanceof Error ? error.message : String(error);
+    logger.warn(`⚠️  Could not load reservations: ${reservationsError}`);
+  }
+
+  return {
+    generatedAtMs: Date.now(),
+    courts,
+    reservations,
+    reservationsError,
+    runs: groupRuns(readHistory().records, ARGS.runs),
+  };
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+if (!Number.isInteger(ARGS.port) || ARGS.port <= 0 || ARGS.port > 65535) {
+  usage(`Invalid --port "${getArgValue("--port")}"`);
+}
+if (!Number.isInteger(ARGS.runs) || ARGS.runs <= 0) {
+  usage(`Invalid --runs "${getArgValue("--runs")}"`);
+}
+
+try {
+  logger.setLevel(loadConfig().logging.level);
+} catch (error) {
+  if (error instanceof ConfigError) {
+    logger.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
+
+const server = createDashboardServer({ loadData, logger });
+
+server.listen(ARGS.port, ARGS.host, () => {
+  logger.info(
+    `📊 Dashboard on http://${ARGS.host}:${ARGS.port} (config ${getConfigPath()})`,
+    { event: "dashboard_start" },
+  );
+});
@@ -0,0 +1,118 @@
+/**
+ * Tennis Court Reservation Bot - Reservation History
+ *
+ * Prints past booking attempts from the history store (data/history.jsonl),
+ * optionally filtered:
+ *
+ *   node dist/scripts/history.js --court 2 --day Saturday --status SLOT_TAKEN
+ *   node dist/scripts/history.js --from 2025-11-01 --to 2025-11-30 --json
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment (quietly: output may be piped as JSON/CSV)
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env"), quiet: true });
+
+import {
+  filterHistory,
+  getHistoryPath,
+  readHistory,
+  type HistoryRecord,
+} from "../src/history";
+import { getStatusIcon } from "../src/message-classifier";
+import { courtArgToAreaId, getArgValue, hasFlag } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  court: getArgValue("--court"),
+  day: getArgValue("--day"),
+  status: getArgValue("--status"),
+  from: getArgValue("--from"),
+  to: getArgValue("--to"),
+  // Include --test runs
+  includeTest: hasFlag("--include-test"),
+  // Show only the most recent N attempts
+  limit: getArgValue("--limit") ? parseInt(getArgValue("--limit")!, 10) : null,
+  json: hasFlag("--json"),
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage: history [--court <1|2>] [--day <Weekday>] [--status <TYPE>]\n` +
+      "               [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--include-test] [--limit N] [--json]",
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function formatRecord(r: HistoryRecord): string {
+  const latency = r.apiCallMs !== null ? `${r.apiCallMs}ms` : "-";
+  return (
+    `${r.targetDate} (${r.dayOfWeek.slice(0, 3)})  ${r.timeSlot.padEnd(19)}  ` +
+    `${r.courtName.padEnd(18)}  ${getStatusIcon(r.status)} ${r.status.padEnd(17)}  ` +
+    `#${r.preference}  ${latency.padStart(7)}  run=${r.runId}${r.test ? " [test]" : ""}`
+  );
+}
+
+function main() {
+  const areaId = ARGS.court ? courtArgToAreaId(ARGS.court) : undefined;
+  if (areaId === null) usage(`Unknown court "${ARGS.court}"`);
+  for (const date of [ARGS.from, ARGS.to]) {
+    if (date && !DATE_PATTERN.test(date)) usage(`Invalid date "${date}"`);
+  }
+  if (ARGS.limit !== null && !(ARGS.limit > 0)) usage("--limit must be > 0");
+
+  const file = getHistoryPath();
+  const { records, skipped } = readHistory(file);
+
+  let shown = filterHistory(records, {
+    areaId,
+    dayOfWeek: ARGS.day ?? undefined,
+    status: ARGS.status ?? undefined,
+    from: ARGS.from ?? undefined,
+    to: ARGS.to ?? undefined,
+    includeTest: ARGS.includeTest,
+  });
+  if (ARGS.limit !== null) {
+    shown = shown.slice(-ARGS.limit);
+  }
+
+  if (ARGS.json) {
+    console.log(JSON.stringify(shown, null, 2));
+    return;
+  }
+
+  console.log(
+    `\n🗂️  Reservation history (${shown.length} of ${records.length} attempts)\n`,
+  );
+  if (skipped > 0) {
+    console.log(`⚠️  Skipped ${skipped} unreadable line(s) in ${file}\n`);
+  }
+
+  if (shown.length === 0) {
+    console.log("   (none)");
+    return;
+  }
+
+  shown.forEach((r) => console.log(`   ${formatRecord(r)}`));
+
+  const successes = shown.filter((r) => r.status === "SUCCESS").length;
+  console.log(`\n✅ ${successes}/${shown.length} attempts succeeded`);
+}
+
+// Run
+try {
+  main();
+} catch (error) {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+}
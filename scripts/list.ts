@@ -0,0 +1,91 @@
+/**
+ * Tennis Court Reservation Bot - List Reservations
+ *
+ * Prints the upcoming reservations held by the configured account,
+ * straight from the mobile API (same data the mobile app shows)
+ *
+ * --raw prints the unparsed fn=reservations response instead, to record
+ * the real field names (see api-endpoints-discovered.md)
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { getDayOfWeek, parseDateInCR, todayCR, ymdCR } from "../src/time-cr";
+import { MobileAPIClient, type Reservation } from "../src/mobile-api-client";
+import { hasFlag } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  // Include past reservations as well
+  all: hasFlag("--all"),
+  // Only show tennis courts (areas 5 and 7)
+  courtsOnly: !hasFlag("--all-areas"),
+  // Print the unparsed API response
+  raw: hasFlag("--raw"),
+};
+
+const COURT_AREA_IDS = ["5", "7"];
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function formatReservation(r: Reservation): string {
+  const dayOfWeek = getDayOfWeek(parseDateInCR(r.date));
+  return (
+    `${r.date} (${dayOfWeek.slice(0, 3)})  ${r.timeSlot.padEnd(19)}  ` +
+    `${r.courtName}  [${r.status || "?"}]  ` +
+    `id=${r.reservationId} schedule=${r.scheduleId}`
+  );
+}
+
+async function main() {
+  const username = process.env.TENNIS_USERNAME;
+  const password = process.env.TENNIS_PASSWORD;
+
+  if (!username || !password) {
+    console.error(
+      "❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)",
+    );
+    process.exit(1);
+  }
+
+  const client = new MobileAPIClient(username, password);
+
+  if (ARGS.raw) {
+    console.log(await client.fetchRawReservations());
+    return;
+  }
+
+  const reservations = await client.listReservations();
+
+  const today = ymdCR(todayCR());
+  const shown = reservations
+    .filter((r) => !ARGS.courtsOnly || COURT_AREA_IDS.includes(r.areaId))
+    .filter((r) => ARGS.all || r.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  console.log(
+    `\n🎾 ${ARGS.all ? "All" : "Upcoming"} reservations for ${username} (${shown.length}):\n`,
+  );
+
+  if (shown.length === 0) {
+    console.log("   (none)");
+    return;
+  }
+
+  shown.forEach((r) => console.log(`   ${formatReservation(r)}`));
+}
+
+// Run
+main().catch((error) => {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+/**
+ * Tennis Court Reservation Bot - Mock SAS Server
+ *
+ * Runs a local stand-in for the SAS mobile API, for rehearsing runs without
+ * booking real courts:
+ *
+ *   node dist/scripts/mock-sas.js --scenario not-yet-available --port 8787
+ *   SAS_BASE_URL=http://localhost:8787 node dist/scripts/reserve.js --test
+ *
+ * Scenarios: success, slot-taken, limit, not-yet-available (until
+ * --opens-at, default next CR midnight), slow, malformed, invalid-credentials.
+ */
+
+import {
+  MOCK_SCENARIOS,
+  createMockSasServer,
+  type MockScenario,
+} from "../src/mock-sas";
+import { getArgValue } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  scenario: (getArgValue("--scenario") ?? "success") as MockScenario,
+  port: parseInt(getArgValue("--port") ?? "8787", 10),
+  opensAt: getArgValue("--opens-at"),
+  delayMs: getArgValue("--delay-ms"),
+};
+
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage: mock-sas [--scenario <${MOCK_SCENARIOS.join("|")}>]\n` +
+      "                [--port 8787] [--opens-at <ISO time>] [--delay-ms N]",
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+if (!MOCK_SCENARIOS.includes(ARGS.scenario)) {
+  usage(`Unknown scenario "${ARGS.scenario}"`);
+}
+const opensAtMs = ARGS.opensAt ? Date.parse(ARGS.opensAt) : undefined;
+if (opensAtMs !== undefined && Number.isNaN(opensAtMs)) {
+  usage(`Invalid --opens-at "${ARGS.opensAt}"`);
+}
+
+const server = createMockSasServer({
+  scenario: ARGS.scenario,
+  opensAtMs,
+  delayMs: ARGS.delayMs ? parseInt(ARGS.delayMs, 10) : undefined,
+  onRequest: (line) => console.log(`[${new Date().toISOString()}] ${line}`),
+});
+
+server.listen(ARGS.port, () => {
+  console.log(
+    `🧪 Mock SAS API (scenario: ${ARGS.scenario}) on http://localhost:${ARGS.port}`,
+  );
+  console.log(`   Use it with: SAS_BASE_URL=http://localhost:${ARGS.port}`);
+  console.log(
+    `   Switch scenario: curl -X POST localhost:${ARGS.port}/__mock/scenario -d '{"scenario":"slot-taken"}'`,
+  );
+});
@@ -5,7 +5,6 @@
  * 12x faster execution (~0.5s vs ~6.3s)
  */
 
-import * as fs from "fs";
 import * as path from "path";
 import * as dotenv from "dotenv";
 
@@ -14,60 +13,54 @@ dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
 
 // Import utilities
 import {
-  crMidnight,
   addDaysCR,
   formatDateForUrl,
   getDayOfWeek,
-  nowInCR,
+  nextMidnightCRMs,
   parseDateInCR,
+  todayCR,
 } from "../src/time-cr";
-import { MobileAPIClient } from "../src/mobile-api-client";
-import { resolveScheduleId } from "../src/schedule-resolver";
 import {
-  classifyMessage,
-  getStatusIcon,
-  type MessageType,
-} from "../src/message-classifier";
-import type { CourtConfig, AppConfig } from "../src/types";
+  DEFAULT_BASE_URL,
+  MobileAPIClient,
+  getApiBaseUrl,
+} from "../src/mobile-api-client";
+import { getArgValue } from "../src/cli-args";
+import { waitUntilInstant } from "../src/midnight-trigger";
+import { Logger, dailyLogFile, isLogLevel, pruneLogs } from "../src/logger";
+import { formatTiming } from "../src/http-transport";
+import {
+  calibrateServerClock,
+  formatCalibration,
+  type ClockCalibration,
+} from "../src/clock-calibration";
+import { ConfigError, getConfigPath, loadConfig } from "../src/config";
+import { getBookingCandidates } from "../src/booking-candidates";
+import { reserveWithFallbacks } from "../src/booking";
+import {
+  appendHistory,
+  getHistoryPath,
+  newRunId,
+  toHistoryRecords,
+} from "../src/history";
+import {
+  createNotifiers,
+  formatPreflightAlert,
+  formatRunSummary,
+  notifyAll,
+  type Notification,
+} from "../src/notifiers";
+import type {
+  AppConfig,
+  MidnightTrigger,
+  ReservationOutcome,
+} from "../src/types";
 
 // ============================================================================
-// CONFIGURATION (Reuse from existing config)
+// CONFIGURATION (loaded from config.json in main())
 // ============================================================================
 
-const CONFIG: AppConfig = {
-  loginUrl: "https://parquesdelsol.sasweb.net/",
-  username: process.env.TENNIS_USERNAME,
-  password: process.env.TENNIS_PASSWORD,
-  emailTo: process.env.TO_EMAIL_ADDRESS || "stern9@gmail.com",
-  emailFrom: process.env.FROM_EMAIL_ADDRESS
-    ? `Tennis Reservations <${process.env.FROM_EMAIL_ADDRESS}>`
-    : "Tennis Reservations <contact@stern9.dev>",
-  resendApiKey: process.env.RESEND_API_KEY,
-  courts: {
-    court1: {
-      areaId: "5",
-      name: "Cancha de Tenis 1",
-      daysAhead: 9,
-      slots: {
-        Monday: "06:00 AM - 07:00 AM",
-        Wednesday: "06:00 AM - 07:00 AM",
-        Friday: "06:00 AM - 07:00 AM",
-        Saturday: "09:00 AM - 10:00 AM",
-      },
-    },
-    court2: {
-      areaId: "7",
-      name: "Cancha de Tenis 2",
-      daysAhead: 8,
-      slots: {
-        Monday: "07:00 AM - 08:00 AM",
-        Wednesday: "06:00 AM - 07:00 AM",
-        Friday: "07:00 AM - 08:00 AM",
-        Saturday: "07:00 AM - 08:00 AM",
-      },
-    },
-  },
-};
+let CONFIG: AppConfig;
 
 // ============================================================================
 // COMMAND LINE ARGUMENTS
@@ -80,6 +73,7 @@ interface Args {
   court2Time: string | null;
   skipCourt1: boolean;
   skipCourt2: boolean;
+  fireOffsetMs: number | null;
 }
 
 const ARGS: Args = {
@@ -89,13 +83,28 @@ const ARGS: Args = {
   court2Time: getArgValue("--court2-time"),
   skipCourt1: process.argv.includes("--skip-court1"),
   skipCourt2: process.argv.includes("--skip-court2"),
+  fireOffsetMs: parseFireOffset(getArgValue("--fire-offset-ms")),
 };
 
-function getArgValue(argName: string): string | null {
-  const index = process.argv.indexOf(argName);
-  return index !== -1 && index + 1 < process.argv.length
-    ? process.argv[index + 1]
-    : null;
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage: reserve [--test] [--target-date YYYY-MM-DD] ` +
+      `[--court1-time "HH:MM AM - HH:MM AM"] [--court2-time "..."] ` +
+      `[--skip-court1] [--skip-court2] [--fire-offset-ms N]`,
+  );
+  process.exit(1);
+}
+
+/**
+ * A typo must not become NaN: the trigger would then fire at once, minutes
+ * before midnight
+ */
+function parseFireOffset(value: string | null): number | null {
+  if (value === null) return null;
+  if (!/^-?\d+$/.test(value.trim())) {
+    usage(`Invalid --fire-offset-ms "${value}" (expected an integer)`);
+  }
+  return parseInt(value, 10);
 }
 
 // ============================================================================
@@ -103,275 +112,236 @@ function getArgValue(argName: string): string | null {
 // ============================================================================
 
 const LOG_DIR = path.join(__dirname, "..", "..", "logs");
-if (!fs.existsSync(LOG_DIR)) {
-  fs.mkdirSync(LOG_DIR, { recursive: true });
-}
 
-const LOG_FILE = path.join(
-  LOG_DIR,
-  `reservation-${new Date().toISOString().split("T")[0]}.log`,
-);
-const logStream = fs.createWriteStream(LOG_FILE, { flags: "a" });
-
-function log(level: string, message: string) {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] [${level}] ${message}`;
-  console.log(logMessage);
-  logStream.write(logMessage + "\n");
-}
+// Identifies this run in the logs and the history store
+const RUN_ID = newRunId();
+
+// Daily file in Costa Rica time; the level is re-applied once config loads
+const LOG_FILE = dailyLogFile(LOG_DIR);
+const logger = Logger.create({
+  runId: RUN_ID,
+  file: LOG_FILE,
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+});
 
 // ============================================================================
 // MIDNIGHT TIMING
 // ============================================================================
 
-async function waitUntilMidnight(): Promise<number | null> {
-  if (ARGS.test) {
-    log("INFO", "🧪 Test mode: Skipping midnight wait");
+// Ignore calibrations this uncertain: aiming with them is worse than local time
+const MAX_CALIBRATION_UNCERTAINTY_MS = 1000;
+
+/**
+ * Estimate the SAS server clock offset (null if disabled, failed or too
+ * uncertain to use)
+ */
+async function calibrateClock(
+  client: MobileAPIClient,
+): Promise<ClockCalibration | null> {
+  if (ARGS.test || !CONFIG.timing.calibrateClock) {
     return null;
   }
 
-  log("INFO", "⏰ Waiting for midnight...");
+  logger.info(
+    `🕰️  Calibrating server clock (${CONFIG.timing.calibrationSamples} samples)...`,
+  );
 
-  while (true) {
-    const crNow = nowInCR();
-    const hours = crNow.getHours();
-    const minutes = crNow.getMinutes();
-    const seconds = crNow.getSeconds();
+  try {
+    const calibration = await calibrateServerClock(client, {
+      samples: CONFIG.timing.calibrationSamples,
+      onSampleError: (error) =>
+        logger.warn(`⚠️  Clock sample failed: ${error}`),
+    });
+    logger.info(`🕰️  Server clock offset: ${formatCalibration(calibration)}`, {
+      event: "calibration",
+      offsetMs: calibration.offsetMs,
+      uncertaintyMs: calibration.uncertaintyMs,
+    });
 
-    if (hours === 0 && minutes === 0 && seconds === 0) {
-      const t0 = Date.now();
-      log("INFO", "🕛 Midnight reached! Starting reservation phase...");
-      return t0;
+    if (calibration.uncertaintyMs > MAX_CALIBRATION_UNCERTAINTY_MS) {
+      logger.warn(
+        "⚠️  Clock calibration too uncertain, aiming at local midnight instead",
+      );
+      return null;
     }
-
-    const currentTime = `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
-    log("INFO", `⏰ Waiting for midnight... Current CR time: ${currentTime}`);
-
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    return calibration;
+  } catch (error) {
+    logger.warn(`⚠️  ${error}, aiming at local midnight instead`);
+    return null;
   }
 }
 
-// ============================================================================
-// RESERVATION LOGIC
-// ============================================================================
-
-interface ReservationOutcome {
-  courtName: string;
-  status: MessageType;
-  friendlyMessage: string;
-  rawMessage: string;
-  date?: string;
-  time?: string;
-  apiCallMs?: number; // API call latency in milliseconds
+/**
+ * Open keep-alive connections for the booking requests: one per request
+ * that can be in flight at once (both courts x burst attempts)
+ */
+async function warmConnections(client: MobileAPIClient) {
+  const connections = 2 * CONFIG.timing.burstAttempts;
+  logger.info(`🔌 Warming up ${connections} keep-alive connections...`);
+
+  const timings = await client.warmUp(connections);
+  if (timings.length < connections) {
+    logger.warn(
+      `⚠️  Only ${timings.length}/${connections} warm-up requests succeeded`,
+    );
+  }
+  timings.forEach((t, i) =>
+    logger.info(`🔌 Warm-up #${i + 1}: ${formatTiming(t)}`),
+  );
 }
 
-async function reserveCourt(
+async function waitUntilMidnight(
   client: MobileAPIClient,
-  courtConfig: CourtConfig,
-  targetDate: Date,
-  timeSlot: string,
-): Promise<ReservationOutcome> {
-  const courtId = courtConfig.areaId as "5" | "7";
-  const dayString = formatDateForUrl(targetDate);
-  const dayOfWeek = getDayOfWeek(targetDate);
-
-  try {
-    // Resolve schedule ID
-    const scheduleId = resolveScheduleId(courtId, targetDate, timeSlot);
-
-    log(
-      "INFO",
-      `📋 ${courtConfig.name}: date=${dayString} (${dayOfWeek}), time=${timeSlot}, schedule=${scheduleId}`,
-    );
-
-    // Make API call
-    const startTime = Date.now();
-    const result = await client.createReservation({
-      area: courtId,
-      day: dayString,
-      schedule: scheduleId,
-    });
-    const elapsed = Date.now() - startTime;
+  calibration: ClockCalibration | null,
+): Promise<MidnightTrigger | null> {
+  const warmupLeadMs = CONFIG.timing.warmupLeadMs;
 
-    log("INFO", `⏱️  ${courtConfig.name}: API call completed in ${elapsed}ms`);
-
-    // Classify the message
-    const classified = classifyMessage(result.message);
-
-    if (classified.type === "SUCCESS") {
-      log("SUCCESS", `✅ ${courtConfig.name}: ${classified.friendlyMessage}`);
-      return {
-        courtName: courtConfig.name,
-        status: classified.type,
-        friendlyMessage: classified.friendlyMessage,
-        rawMessage: classified.rawMessage,
-        date: dayString,
-        time: timeSlot,
-        apiCallMs: elapsed,
-      };
-    } else {
-      const icon = getStatusIcon(classified.type);
-      log(
-        "ERROR",
-        `${icon} ${courtConfig.name}: ${classified.type} - ${classified.friendlyMessage}`,
-      );
-      return {
-        courtName: courtConfig.name,
-        status: classified.type,
-        friendlyMessage: classified.friendlyMessage,
-        rawMessage: classified.rawMessage,
-        date: dayString,
-        time: timeSlot,
-        apiCallMs: elapsed,
-      };
+  if (ARGS.test) {
+    logger.info("🧪 Test mode: Skipping midnight wait");
+    if (warmupLeadMs > 0) {
+      await warmConnections(client);
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    log("ERROR", `❌ ${courtConfig.name}: Exception - ${errorMessage}`);
-    return {
-      courtName: courtConfig.name,
-      status: "UNKNOWN",
-      friendlyMessage: `Unexpected error: ${errorMessage}`,
-      rawMessage: errorMessage,
-      date: dayString,
-      time: timeSlot,
-      apiCallMs: 0,
-    };
+    return null;
   }
-}
 
-// ============================================================================
-// EMAIL NOTIFICATIONS
-// ============================================================================
+  // Aim at server midnight, expressed on the local clock. The burst is
+  // centred on the fire time, so its first submission goes out before it
+  // (3 x 40ms: at -40, 0 and +40ms)
+  const clockOffsetMs = calibration?.offsetMs ?? 0;
+  const burstLeadMs = Math.round(
+    ((CONFIG.timing.burstAttempts - 1) * CONFIG.timing.burstSpacingMs) / 2,
+  );
+  const fireOffsetMs =
+    (ARGS.fireOffsetMs ?? CONFIG.timing.fireOffsetMs) - burstLeadMs;
+  const targetMs = nextMidnightCRMs(Date.now() + clockOffsetMs) - clockOffsetMs;
+  logger.info(
+    `⏰ Waiting for ${calibration ? "server" : "local"} midnight ` +
+      `(${new Date(targetMs).toISOString()} local), fire offset ${fireOffsetMs}ms` +
+      (burstLeadMs > 0 ? ` (burst starts ${burstLeadMs}ms early)` : "") +
+      "...",
+  );
 
-function formatDateForEmail(dateString: string): string {
-  // Convert YYYY-MM-DD to "Wednesday 17th"
-  const date = new Date(dateString + "T00:00:00");
-  const dayOfWeek = getDayOfWeek(date);
-  const day = date.getDate();
-
-  // Add ordinal suffix (1st, 2nd, 3rd, 4th, etc.)
-  const suffix =
-    day === 1 || day === 21 || day === 31
-      ? "st"
-      : day === 2 || day === 22
-        ? "nd"
-        : day === 3 || day === 23
-          ? "rd"
-          : "th";
-
-  return `${dayOfWeek} ${day}${suffix}`;
-}
+  const onCheckpoint = (remainingMs: number) =>
+    logger.info(`⏰ ${(remainingMs / 1000).toFixed(1)}s until fire time`);
 
-function formatMs(ms: number): string {
-  // Format milliseconds into human-readable format
-  if (ms < 60000) {
-    // Under 1 minute: show as seconds (e.g., "0.57s" or "5.23s")
-    return `${(ms / 1000).toFixed(2)}s`;
-  } else {
-    // Over 1 minute: show as minutes and seconds (e.g., "1m 30s")
-    const minutes = Math.floor(ms / 60000);
-    const seconds = ((ms % 60000) / 1000).toFixed(0);
-    return `${minutes}m ${seconds}s`;
+  // Warm up the connections a few seconds before firing
+  if (warmupLeadMs > 0) {
+    await waitUntilInstant(targetMs, {
+      fireOffsetMs: fireOffsetMs - warmupLeadMs,
+      spinWindowMs: 0,
+      onCheckpoint,
+    });
+    await warmConnections(client);
   }
-}
 
-async function sendEmailNotification(
-  results: ReservationOutcome[],
-  t0Time: number | null,
-  totalTimeMs: number,
-) {
-  if (!CONFIG.resendApiKey) {
-    log("WARN", "⚠️  No RESEND_API_KEY found, skipping email notification");
-    return;
-  }
+  const trigger = await waitUntilInstant(targetMs, {
+    fireOffsetMs,
+    onCheckpoint,
+  });
+
+  logger.info(
+    `🕛 Midnight reached! Fired at ${new Date(trigger.firedAtMs).toISOString()} ` +
+      `(drift ${trigger.driftMs.toFixed(2)}ms vs target + offset). Starting reservation phase...`,
+    {
+      event: "fire",
+      t0: new Date(targetMs).toISOString(),
+      fireOffsetMs,
+      driftMs: trigger.driftMs,
+      clockOffsetMs,
+    },
+  );
+  return { ...trigger, clockOffsetMs, calibration };
+}
 
-  // Separate successes and errors
-  const successes = results.filter((r) => r.status === "SUCCESS");
-  const errors = results.filter((r) => r.status !== "SUCCESS");
+// ============================================================================
+// PREFLIGHT
+// ============================================================================
 
-  // Build email body (matching Playwright format)
-  let emailBody = "=== Tennis Court Reservation Summary ===\n\n";
+/**
+ * Validate credentials and API connectivity before the midnight wait.
+ * Returns the failure reason, or null if everything is fine.
+ */
+async function runPreflight(client: MobileAPIClient): Promise<string | null> {
+  logger.info("🩺 Preflight: validating credentials and API connectivity...");
 
-  if (ARGS.test) {
-    emailBody += "🧪 TEST MODE:\n";
-    emailBody += "(Results may vary from production)\n\n";
-  }
+  try {
+    const startTime = Date.now();
+    const result = await client.validate();
+    const elapsed = Date.now() - startTime;
 
-  // Success section
-  if (successes.length > 0) {
-    emailBody += "🎾 REAL BOOKINGS CONFIRMED:\n";
-    successes.forEach((r) => {
-      const formattedDate = formatDateForEmail(r.date!);
-      emailBody += `✅ ${r.courtName} - ${formattedDate} at ${r.time}\n`;
-      emailBody += `   Status: ${r.friendlyMessage}\n`;
-      if (r.apiCallMs) {
-        emailBody += `   📊 API call: ${formatMs(r.apiCallMs)}\n`;
-      }
-      emailBody += "\n";
-    });
-  }
+    if (!result.valid) {
+      logger.error(`❌ Preflight failed: ${result.message}`, {
+        event: "preflight_failed",
+      });
+      return result.message;
+    }
 
-  // Error section
-  if (errors.length > 0) {
-    emailBody += "❌ FAILED RESERVATIONS:\n";
-    errors.forEach((r) => {
-      const icon = getStatusIcon(r.status);
-      const formattedDate = formatDateForEmail(r.date!);
-      emailBody += `${icon} ${r.courtName} - ${formattedDate} at ${r.time}\n`;
-      emailBody += `   Error: ${r.friendlyMessage}\n`;
-      if (r.apiCallMs) {
-        emailBody += `   📊 API call: ${formatMs(r.apiCallMs)}\n`;
-      }
-      emailBody += "\n";
+    logger.info(
+      `✅ Preflight OK: ${result.condoName} (condo ${result.condoId}) in ${elapsed}ms`,
+      { event: "preflight_ok" },
+    );
+    return null;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`❌ Preflight failed: ${errorMessage}`, {
+      event: "preflight_failed",
     });
+    return errorMessage;
   }
+}
 
-  // Footer
-  emailBody += `\n📅 Run time: ${new Date().toISOString()}`;
-  if (t0Time) {
-    emailBody += `\n⏱️  T0 (midnight): ${new Date(t0Time).toISOString()}`;
-  }
-  emailBody += `\n⚡ Total execution: ${formatMs(totalTimeMs)}`;
-  emailBody += `\n🚀 Mode: API (Mobile App)`;
-  emailBody += `\n📄 Log file: ${LOG_FILE}`;
+// ============================================================================
+// HISTORY
+// ============================================================================
 
-  // Subject (matching Playwright format)
-  const subject =
-    successes.length > 0 && errors.length === 0
-      ? `Reservations Confirmed ✅ (${successes.length}/${successes.length})`
-      : successes.length > 0 && errors.length > 0
-        ? `Partial Success ⚠️ (${successes.length}/${results.length})`
-        : `Reservation Failed ❌`;
+// Every candidate attempted this run, in order (including fallbacks)
+const attemptHistory: ReservationOutcome[] = [];
 
-  const emailSubject = ARGS.test ? `[TEST] ${subject}` : subject;
+/**
+ * Persist this run's attempts to the history store (failures are logged,
+ * never thrown: history must not cost us a notification)
+ */
+function saveHistory(trigger: MidnightTrigger | null) {
+  const records = toHistoryRecords(attemptHistory, {
+    runId: RUN_ID,
+    test: ARGS.test,
+    trigger,
+  });
 
-  // Send email (using Resend API with HTML formatting)
   try {
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${CONFIG.resendApiKey}`,
-      },
-      body: JSON.stringify({
-        from: CONFIG.emailFrom,
-        to: [CONFIG.emailTo],
-        subject: `🎾 ${emailSubject}`,
-        text: emailBody,
-        html: `<pre style="font-family: monospace; font-size: 13px;">${emailBody}</pre>`,
-      }),
-    });
+    appendHistory(records);
+    logger.info(
+      `🗂️  Saved ${records.length} attempt(s) to ${getHistoryPath()}`,
+    );
+  } catch (error) {
+    logger.error(`🗂️  Failed to save history: ${error}`);
+  }
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
 
-    if (response.ok) {
-      const data = await response.json();
-      log("INFO", `📧 Email sent successfully (ID: ${data.id})`);
+/**
+ * Deliver a notification through every configured notifier and log how
+ * each one went (failures are logged, never thrown)
+ */
+async function notify(notification: Notification) {
+  const results = await notifyAll(createNotifiers(CONFIG), notification);
+
+  for (const r of results) {
+    const retries = r.attempts > 1 ? ` after ${r.attempts} attempts` : "";
+    if (r.ok) {
+      logger.info(
+        `📣 ${r.name}: delivered${retries}${r.detail ? ` - ${r.detail}` : ""}`,
+        { event: "notify", notifier: r.name },
+      );
     } else {
-      const errorText = await response.text();
-      log("ERROR", `📧 Failed to send email: ${response.status} ${errorText}`);
+      logger.error(`📣 ${r.name}: failed${retries} - ${r.detail}`, {
+        event: "notify_failed",
+        notifier: r.name,
+      });
     }
-  } catch (error) {
-    log("ERROR", `📧 Email error: ${error}`);
   }
 }
 
@@ -380,27 +350,74 @@ async function sendEmailNotification(
 // ============================================================================
 
 async function main() {
-  log("INFO", "=== Tennis Court Reservation Script Started (API Mode) ===");
-  log("INFO", `Mode: ${ARGS.test ? "TEST" : "PRODUCTION"}`);
+  logger.info("=== Tennis Court Reservation Script Started (API Mode) ===", {
+    event: "start",
+  });
+  logger.info(`Mode: ${ARGS.test ? "TEST" : "PRODUCTION"} (run ${RUN_ID})`);
+
+  // Load and validate configuration
+  try {
+    CONFIG = loadConfig();
+  } catch (error) {
+    const message =
+      error instanceof ConfigError ? error.message : `Config error: ${error}`;
+    logger.error(`❌ ${message}`);
+    process.exit(1);
+  }
+  logger.info(`⚙️  Config loaded from ${getConfigPath()}`);
+  logger.setLevel(CONFIG.logging.level);
+
+  // Retention (replaces the old cron cleanup job)
+  try {
+    const pruned = pruneLogs(LOG_DIR, CONFIG.logging.retentionDays);
+    if (pruned.length > 0) {
+      logger.info(
+        `🧹 Deleted ${pruned.length} log file(s) older than ${CONFIG.logging.retentionDays} days`,
+        { event: "log_prune", files: pruned },
+      );
+    }
+  } catch (error) {
+    logger.warn(`⚠️  Log retention failed: ${error}`);
+  }
 
   // Validate credentials
   if (!CONFIG.username || !CONFIG.password) {
-    log("ERROR", "❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)");
+    logger.error("❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)");
     process.exit(1);
   }
 
   // Create API client
-  const client = new MobileAPIClient(CONFIG.username, CONFIG.password);
-  log("INFO", `🔐 API client initialized (user: ${CONFIG.username})`);
+  const client = new MobileAPIClient(
+    CONFIG.username,
+    CONFIG.password,
+    false,
+    getApiBaseUrl(),
+    CONFIG.api,
+    logger,
+  );
+  logger.info(`🔐 API client initialized (user: ${CONFIG.username})`);
+  if (client.baseUrl !== DEFAULT_BASE_URL) {
+    logger.warn(`🧪 Using API at ${client.baseUrl} (SAS_BASE_URL)`);
+  }
 
-  // Wait for midnight (unless in test mode)
-  const t0Time = await waitUntilMidnight();
+  // Preflight (before midnight, so there is still time to fix problems)
+  const preflightError = await runPreflight(client);
+  if (preflightError) {
+    await notify(formatPreflightAlert(preflightError, ARGS.test, LOG_FILE));
+    logger.error("=== Script Aborted (preflight failed) ===");
+    process.exit(1);
+  }
 
-  // Calculate target dates (AFTER midnight to use correct day)
+  // Calibrate against the server clock, then wait for midnight (unless in test mode)
+  const calibration = await calibrateClock(client);
+  const trigger = await waitUntilMidnight(client, calibration);
+
+  // Calculate target dates from the midnight we fired for (not "now": with a
+  // negative fire offset, the CR clock may still read 23:59:59)
   const today =
     ARGS.test && ARGS.targetDate
       ? parseDateInCR(ARGS.targetDate)
-      : crMidnight();
+      : todayCR(trigger ? trigger.targetMs + trigger.clockOffsetMs : undefined);
 
   const court1Date = addDaysCR(today, CONFIG.courts.court1.daysAhead);
   const court2Date = addDaysCR(today, CONFIG.courts.court2.daysAhead);
@@ -420,43 +437,80 @@ async function main() {
       court2DayOfWeek as keyof typeof CONFIG.courts.court2.slots
     ];
 
-  log(
-    "INFO",
+  logger.info(
     `📅 Court 1 target: ${formatDateForUrl(court1Date)} (${court1DayOfWeek}) at ${court1Time}`,
   );
-  log(
-    "INFO",
+  logger.info(
     `📅 Court 2 target: ${formatDateForUrl(court2Date)} (${court2DayOfWeek}) at ${court2Time}`,
   );
 
   // Start timer
   const startTime = Date.now();
-  log("INFO", "🚀 Starting parallel API reservation calls...");
+  logger.info("🚀 Starting parallel API reservation calls...");
 
-  // Execute both reservations in parallel
+  // Execute both reservations in parallel (each with its own fallbacks)
   const reservationPromises: Promise<ReservationOutcome>[] = [];
 
   if (!ARGS.skipCourt1 && court1Time) {
+    const candidates = getBookingCandidates(
+      CONFIG,
+      "court1",
+      court1DayOfWeek,
+      court1Time,
+      CONFIG.courts.court1.daysAhead, // Days until court1Date
+    );
     reservationPromises.push(
-      reserveCourt(client, CONFIG.courts.court1, court1Date, court1Time),
+      reserveWithFallbacks(
+        client,
+        candidates,
+        court1Date,
+        CONFIG.timing,
+        logger,
+        (outcome) => attemptHistory.push(outcome),
+      ),
     );
   }
 
   if (!ARGS.skipCourt2 && court2Time) {
+    const candidates = getBookingCandidates(
+      CONFIG,
+      "court2",
+      court2DayOfWeek,
+      court2Time,
+      CONFIG.courts.court2.daysAhead, // Days until court2Date
+    );
     reservationPromises.push(
-      reserveCourt(client, CONFIG.courts.court2, court2Date, court2Time),
+      reserveWithFallbacks(
+        client,
+        candidates,
+        court2Date,
+        CONFIG.timing,
+        logger,
+        (outcome) => attemptHistory.push(outcome),
+      ),
     );
   }
 
   const results = await Promise.all(reservationPromises);
 
   const totalTime = Date.now() - startTime;
-  log("INFO", `⏱️  Total execution time: ${totalTime}ms`);
-
-  // Send email notification
-  await sendEmailNotification(results, t0Time, totalTime);
+  logger.info(`⏱️  Total execution time: ${totalTime}ms`);
+
+  saveHistory(trigger);
+
+  // Send notifications
+  await notify(
+    formatRunSummary({
+      outcomes: results,
+      test: ARGS.test,
+      runAt: new Date().toISOString(),
+      totalTimeMs: totalTime,
+      trigger,
+      logFile: LOG_FILE,
+    }),
+  );
 
-  log("INFO", "=== Script Completed ===");
+  logger.info("=== Script Completed ===", { event: "end" });
 
   // Exit with appropriate code
   const allSuccess = results.every((r) => r.status === "SUCCESS");
@@ -465,6 +519,6 @@ async function main() {
 
 // Run
 main().catch((error) => {
-  log("ERROR", `Fatal error: ${error}`);
+  logger.error(`Fatal error: ${error}`);
   process.exit(1);
 });
@@ -0,0 +1,257 @@
+/**
+ * Tennis Court Reservation Bot - Success-Rate & Latency Report
+ *
+ * Aggregates the reservation history (data/history.jsonl): success rate per
+ * court / weekday / slot, failure type distribution, p50/p95/max API call
+ * latency, and the slots we keep losing.
+ *
+ *   node dist/scripts/stats.js                    # terminal tables
+ *   node dist/scripts/stats.js --format csv > stats.csv
+ *   node dist/scripts/stats.js --format json --from 2025-11-01
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment (quietly: output may be piped as JSON/CSV)
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env"), quiet: true });
+
+import { filterHistory, getHistoryPath, readHistory } from "../src/history";
+import {
+  computeStats,
+  takenRate,
+  type GroupStats,
+  type LatencyStats,
+  type StatsReport,
+} from "../src/stats";
+import { courtArgToAreaId, getArgValue, hasFlag } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  format: getArgValue("--format") ?? "table",
+  court: getArgValue("--court"),
+  from: getArgValue("--from"),
+  to: getArgValue("--to"),
+  // Include --test runs
+  includeTest: hasFlag("--include-test"),
+};
+
+const FORMATS = ["table", "json", "csv"];
+const FAILURE_COLUMNS = [
+  "SLOT_TAKEN",
+  "NOT_YET_AVAILABLE",
+  "RESERVATION_LIMIT",
+  "UNKNOWN",
+];
+
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage: stats [--format table|json|csv] [--court <1|2>]\n` +
+      "             [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--include-test]",
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function pct(rate: number): string {
+  return `${(rate * 100).toFixed(0)}%`;
+}
+
+function ms(value: number | null): string {
+  return value === null ? "-" : `${value}ms`;
+}
+
+function formatLatency(l: LatencyStats): string {
+  return `p50 ${ms(l.p50Ms)}, p95 ${ms(l.p95Ms)}, max ${ms(l.maxMs)} (${l.samples} samples)`;
+}
+
+/**
+ * Render rows as an aligned text table
+ */
+function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length)),
+  );
+  const line = (cells: string[]) =>
+    ("   " + cells.map((c, i) => c.padEnd(widths[i])).join("  ")).trimEnd();
+  return [
+    line(headers),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map(line),
+  ].join("\n");
+}
+
+function groupRow(label: string, g: GroupStats): string[] {
+  return [
+    label,
+    String(g.attempts),
+    pct(g.successRate),
+    ...FAILURE_COLUMNS.map((type) => String(g.failures[type] ?? 0)),
+    ms(g.latency.p50Ms),
+    ms(g.latency.p95Ms),
+    ms(g.latency.maxMs),
+  ];
+}
+
+const GROUP_HEADERS = [
+  "Attempts",
+  "Success",
+  "Taken",
+  "NotYet",
+  "Limit",
+  "Unknown",
+  "p50",
+  "p95",
+  "max",
+];
+
+function printTable(report: StatsReport) {
+  console.log(
+    `\n📊 ${report.attempts} attempts over ${report.runs} runs, ${pct(report.successRate)} succeeded`,
+  );
+  console.log(`⏱️  API call latency: ${formatLatency(report.latency)}`);
+
+  const failures = Object.entries(report.failures).sort((a, b) => b[1] - a[1]);
+  if (failures.length > 0) {
+    console.log("\n❌ Failure types:");
+    for (const [type, count] of failures) {
+      console.log(
+        `   ${type.padEnd(18)} ${String(count).padStart(4)}  ${pct(count / report.attempts)}`,
+      );
+    }
+  }
+
+  console.log("\n🎾 By court:\n");
+  console.log(
+    table(
+      ["Court", ...GROUP_HEADERS],
+      report.byCourt.map((g) => groupRow(g.courtName!, g)),
+    ),
+  );
+
+  console.log("\n📅 By weekday:\n");
+  console.log(
+    table(
+      ["Weekday", ...GROUP_HEADERS],
+      report.byWeekday.map((g) => groupRow(g.dayOfWeek!, g)),
+    ),
+  );
+
+  console.log("\n🕐 By slot:\n");
+  console.log(
+    table(
+      ["Slot", ...GROUP_HEADERS],
+      report.bySlot.map((g) =>
+        groupRow(`${g.courtName} ${g.dayOfWeek!.slice(0, 3)} ${g.timeSlot}`, g),
+      ),
+    ),
+  );
+
+  if (report.losingSlots.length > 0) {
+    console.log("\n🚩 Slots we keep losing:");
+    for (const g of report.losingSlots) {
+      console.log(
+        `   ${g.courtName} ${g.dayOfWeek} ${g.timeSlot}: taken ${pct(takenRate(g))} of ${g.attempts} attempts`,
+      );
+    }
+  }
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function printCsv(report: StatsReport) {
+  const losing = new Set(report.losingSlots);
+  const header = [
+    "scope",
+    "court",
+    "dayOfWeek",
+    "timeSlot",
+    "attempts",
+    "successes",
+    "successRate",
+    ...FAILURE_COLUMNS,
+    "otherFailures",
+    "p50Ms",
+    "p95Ms",
+    "maxMs",
+    "losing",
+  ];
+  console.log(header.join(","));
+
+  for (const g of [...report.byCourt, ...report.byWeekday, ...report.bySlot]) {
+    const known = FAILURE_COLUMNS.reduce(
+      (sum, type) => sum + (g.failures[type] ?? 0),
+      0,
+    );
+    const total = Object.values(g.failures).reduce((a, b) => a + b, 0);
+    const row = [
+      g.scope,
+      g.courtName,
+      g.dayOfWeek,
+      g.timeSlot,
+      g.attempts,
+      g.successes,
+      g.successRate.toFixed(3),
+      ...FAILURE_COLUMNS.map((type) => g.failures[type] ?? 0),
+      total - known,
+      g.latency.p50Ms,
+      g.latency.p95Ms,
+      g.latency.maxMs,
+      losing.has(g) ? "yes" : "",
+    ];
+    console.log(row.map(csvCell).join(","));
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function main() {
+  if (!FORMATS.includes(ARGS.format)) {
+    usage(`Unknown format "${ARGS.format}"`);
+  }
+  const areaId = ARGS.court ? courtArgToAreaId(ARGS.court) : undefined;
+  if (areaId === null) usage(`Unknown court "${ARGS.court}"`);
+
+  const file = getHistoryPath();
+  const { records, skipped } = readHistory(file);
+  if (skipped > 0) {
+    console.error(`⚠️  Skipped ${skipped} unreadable line(s) in ${file}`);
+  }
+
+  const selected = filterHistory(records, {
+    areaId,
+    from: ARGS.from ?? undefined,
+    to: ARGS.to ?? undefined,
+    includeTest: ARGS.includeTest,
+  });
+  const report = computeStats(selected);
+
+  if (ARGS.format === "json") {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (ARGS.format === "csv") {
+    printCsv(report);
+  } else if (report.attempts === 0) {
+    console.log(`\n📊 No reservation history found in ${file}`);
+  } else {
+    printTable(report);
+  }
+}
+
+// Run
+try {
+  main();
+} catch (error) {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+}
@@ -0,0 +1,179 @@
+/**
+ * Tennis Court Reservation Bot - Sync Schedule IDs
+ *
+ * Fetches the live area/day/slot -> schedule ID mapping from the
+ * reservations_form endpoint and prints a diff against the mapping currently
+ * used by schedule-resolver.ts. With --write, saves the live mapping to
+ * schedule-ids.json, which schedule-resolver.ts loads instead of the
+ * hand-extracted tables in schedule-ids-complete.ts.
+ *
+ * --write refuses a mapping that looks shifted by whole days (a misread
+ * day numbering) or that changes more than MAX_CHANGED_FRACTION of a
+ * court's slots, unless --force is given. --raw prints the unparsed
+ * reservations_form response, to record the real payload shape.
+ *
+ * Exit code is 1 when differences are found (and not written), so this can
+ * run from cron ahead of midnight.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { MobileAPIClient } from "../src/mobile-api-client";
+import {
+  SCHEDULE_IDS_FILE,
+  getScheduleMapping,
+  loadScheduleIdsFile,
+  validateScheduleIdsFile,
+  type ScheduleIdsFile,
+} from "../src/schedule-resolver";
+import {
+  buildScheduleMapping,
+  detectDayShift,
+  diffScheduleMappings,
+  formatScheduleChange,
+} from "../src/schedule-sync";
+import { hasFlag } from "../src/cli-args";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  write: hasFlag("--write"),
+  // Write even a large or day-shifted diff
+  force: hasFlag("--force"),
+  // Print the unparsed API response
+  raw: hasFlag("--raw"),
+};
+
+// Larger diffs are more likely a parsing mistake than a real schedule change
+const MAX_CHANGED_FRACTION = 0.1;
+
+const COURTS: Array<{ id: "5" | "7"; name: string }> = [
+  { id: "5", name: "Court 1" },
+  { id: "7", name: "Court 2" },
+];
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const username = process.env.TENNIS_USERNAME;
+  const password = process.env.TENNIS_PASSWORD;
+
+  if (!username || !password) {
+    console.error(
+      "❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)",
+    );
+    process.exit(1);
+  }
+
+  const client = new MobileAPIClient(username, password);
+
+  if (ARGS.raw) {
+    console.log(await client.fetchRawScheduleForm());
+    return;
+  }
+
+  const entries = await client.fetchScheduleEntries();
+
+  const source = loadScheduleIdsFile()
+    ? path.basename(SCHEDULE_IDS_FILE)
+    : "schedule-ids-complete.ts";
+  console.log(`\n🔄 Comparing live schedule IDs against ${source}\n`);
+
+  const generated: ScheduleIdsFile = {
+    generatedAt: new Date().toISOString(),
+    courts: { "5": {}, "7": {} },
+  };
+  let totalChanges = 0;
+  const suspicious: string[] = [];
+
+  for (const court of COURTS) {
+    const live = buildScheduleMapping(entries, court.id);
+    const slotCount = Object.values(live).reduce(
+      (sum, slots) => sum + Object.keys(slots).length,
+      0,
+    );
+
+    if (slotCount === 0) {
+      console.error(
+        `❌ ${court.name} (area ${court.id}): no schedules found in the live response`,
+      );
+      process.exit(1);
+    }
+
+    generated.courts[court.id] = live;
+    const current = getScheduleMapping(court.id);
+    const changes = diffScheduleMappings(court.id, current, live);
+    totalChanges += changes.length;
+
+    const shift = detectDayShift(current, live);
+    if (shift !== 0) {
+      suspicious.push(
+        `${court.name}: the live days look shifted by ${shift} day(s) (day numbering misread?)`,
+      );
+    }
+    const currentCount = Object.values(current).reduce(
+      (sum, slots) => sum + Object.keys(slots).length,
+      0,
+    );
+    if (changes.length > currentCount * MAX_CHANGED_FRACTION) {
+      suspicious.push(
+        `${court.name}: ${changes.length} of ${currentCount} slots differ (more than ${MAX_CHANGED_FRACTION * 100}%)`,
+      );
+    }
+
+    console.log(
+      `${changes.length === 0 ? "✅" : "⚠️ "} ${court.name} (area ${court.id}): ` +
+        `${slotCount} live slots, ${changes.length} difference(s)`,
+    );
+    changes.forEach((c) => console.log(`   ${formatScheduleChange(c)}`));
+  }
+
+  if (ARGS.write) {
+    const problems = validateScheduleIdsFile(generated);
+    if (problems.length > 0) {
+      console.error(
+        `\n❌ Not writing: the live mapping is incomplete or malformed:\n   ${problems.join("\n   ")}`,
+      );
+      process.exit(1);
+    }
+    if (suspicious.length > 0 && !ARGS.force) {
+      console.error(
+        `\n❌ Not writing: ${suspicious.join("; ")}.\n` +
+          "   Check the diff (and `--raw`) by hand; re-run with --write --force if it is real.",
+      );
+      process.exit(1);
+    }
+
+    fs.writeFileSync(
+      SCHEDULE_IDS_FILE,
+      JSON.stringify(generated, null, 2) + "\n",
+    );
+    console.log(`\n💾 Wrote live mapping to ${SCHEDULE_IDS_FILE}`);
+    return;
+  }
+
+  if (totalChanges > 0) {
+    suspicious.forEach((line) => console.log(`\n🚨 ${line}`));
+    console.log(
+      `\n⚠️  ${totalChanges} difference(s) found. Re-run with --write to update ${path.basename(SCHEDULE_IDS_FILE)}.`,
+    );
+    process.exit(1);
+  }
+
+  console.log("\n✅ Schedule IDs are up to date");
+}
+
+// Run
+main().catch((error) => {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+});
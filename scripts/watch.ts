@@ -0,0 +1,321 @@
+/**
+ * Tennis Court Reservation Bot - Watch for Cancellations
+ *
+ * Re-submits the booking for one or more slots at a polite, jittered
+ * interval (config "watch", or --interval-ms / --jitter-ms) and books each
+ * one as soon as someone cancels it:
+ *
+ *   node dist/scripts/watch.js --target "1 2025-11-19 06:00 AM - 07:00 AM" \
+ *     --target "2 2025-11-19 07:00 AM - 08:00 AM"
+ *   node dist/scripts/watch.js --court 1 --date 2025-11-19 --time "06:00 AM - 07:00 AM"
+ *
+ * A target is dropped once its slot starts. RESERVATION_LIMIT (or any other
+ * terminal result) stops the whole watch, since no later attempt can
+ * succeed. Bookings and stops are notified like a run.
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import {
+  MobileAPIClient,
+  getApiBaseUrl,
+  type Reservation,
+} from "../src/mobile-api-client";
+import { ConfigError, loadConfig } from "../src/config";
+import { reserveCourt } from "../src/booking";
+import { getMessageTypeInfo, getStatusIcon } from "../src/message-classifier";
+import {
+  isTargetReservation,
+  nextPollDelayMs,
+  parseWatchTarget,
+  type WatchTarget,
+} from "../src/watch";
+import { ymdCR } from "../src/time-cr";
+import { Logger, isLogLevel } from "../src/logger";
+import { newRunId } from "../src/history";
+import { createNotifiers, formatRunSummary, notifyAll } from "../src/notifiers";
+import { getArgValue, getArgValues } from "../src/cli-args";
+import type { AppConfig, CourtConfig, ReservationOutcome } from "../src/types";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  targets: getArgValues("--target"),
+  court: getArgValue("--court"),
+  date: getArgValue("--date"),
+  time: getArgValue("--time"),
+  intervalMs: getArgValue("--interval-ms"),
+  jitterMs: getArgValue("--jitter-ms"),
+};
+
+function usage(message: string): never {
+  console.error(
+    `❌ ${message}\n\nUsage:\n` +
+      '  watch --target "<court> <YYYY-MM-DD> <time slot>" [--target ...]\n' +
+      '  watch --court <1|2> --date <YYYY-MM-DD> --time "06:00 AM - 07:00 AM"\n' +
+      "        [--interval-ms N] [--jitter-ms N]",
+  );
+  process.exit(1);
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+const LOG_DIR = path.join(__dirname, "..", "..", "logs");
+const RUN_ID = newRunId();
+const logger = Logger.create({
+  runId: RUN_ID,
+  dailyDir: LOG_DIR,
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+});
+
+// ============================================================================
+// WATCH LOGIC
+// ============================================================================
+
+function describeTarget(target: WatchTarget, config: AppConfig): string {
+  return `${courtName(target, config)} ${ymdCR(target.date)} ${target.timeSlot}`;
+}
+
+function courtName(target: WatchTarget, config: AppConfig): string {
+  return targetCourt(target, config).name;
+}
+
+/**
+ * The court config a target books on
+ */
+function targetCourt(target: WatchTarget, config: AppConfig): CourtConfig {
+  return config.courts.court1.areaId === target.areaId
+    ? config.courts.court1
+    : config.courts.court2;
+}
+
+/**
+ * Submit one booking for a target (through the shared booking path)
+ *
+ * reserveCourt checks the reservation list after a TRANSPORT_ERROR; when
+ * that check fails too, the next poll's SLOT_TAKEN may be our own booking,
+ * so the target stays in `unconfirmed` until a check succeeds.
+ */
+async function attempt(
+  client: MobileAPIClient,
+  target: WatchTarget,
+  config: AppConfig,
+  unconfirmed: Set<WatchTarget>,
+): Promise<ReservationOutcome> {
+  const outcome = await reserveCourt(
+    client,
+    targetCourt(target, config),
+    target.date,
+    target.timeSlot,
+    logger,
+    undefined,
+    unconfirmed.has(target),
+  );
+
+  if (outcome.unconfirmed) {
+    unconfirmed.add(target);
+  } else if (
+    outcome.status === "SLOT_TAKEN" ||
+    outcome.status === "TRANSPORT_ERROR"
+  ) {
+    // The reservation list was read and does not hold the slot
+    unconfirmed.delete(target);
+  }
+  return outcome;
+}
+
+async function notify(
+  config: AppConfig,
+  outcomes: ReservationOutcome[],
+  startedAtMs: number,
+) {
+  const summary = formatRunSummary({
+    outcomes,
+    test: false,
+    runAt: new Date().toISOString(),
+    totalTimeMs: Date.now() - startedAtMs,
+    trigger: null,
+    logFile: logger.currentFile() ?? undefined,
+  });
+  const results = await notifyAll(createNotifiers(config), {
+    ...summary,
+    subject: `Watch: ${summary.subject}`,
+  });
+
+  for (const r of results) {
+    if (r.ok) {
+      logger.info(`📣 ${r.name}: delivered`, {
+        event: "notify",
+        notifier: r.name,
+      });
+    } else {
+      logger.error(`📣 ${r.name}: failed - ${r.detail}`, {
+        event: "notify_failed",
+        notifier: r.name,
+      });
+    }
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const specs = [...ARGS.targets];
+  if (ARGS.court || ARGS.date || ARGS.time) {
+    if (!ARGS.court || !ARGS.date || !ARGS.time) {
+      usage("--court, --date and --time must be given together");
+    }
+    specs.push(`${ARGS.court} ${ARGS.date} ${ARGS.time}`);
+  }
+  if (specs.length === 0) {
+    usage("No target given");
+  }
+
+  let config: AppConfig;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+  logger.setLevel(config.logging.level);
+
+  const intervalMs = ARGS.intervalMs
+    ? parseInt(ARGS.intervalMs, 10)
+    : config.watch.intervalMs;
+  const jitterMs = ARGS.jitterMs
+    ? parseInt(ARGS.jitterMs, 10)
+    : config.watch.jitterMs;
+  if (!(intervalMs >= 10000) || !(jitterMs >= 0) || jitterMs >= intervalMs) {
+    usage("--interval-ms must be at least 10000 and above --jitter-ms");
+  }
+
+  let targets: WatchTarget[];
+  try {
+    targets = specs.map(parseWatchTarget);
+  } catch (error) {
+    usage(error instanceof Error ? error.message : String(error));
+  }
+  const started = targets.filter((t) => t.startsAtMs <= Date.now());
+  if (started.length > 0) {
+    usage(`Slot already started: ${describeTarget(started[0], config)}`);
+  }
+
+  if (!config.username || !config.password) {
+    logger.error("❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)");
+    process.exit(1);
+  }
+
+  const client = new MobileAPIClient(
+    config.username,
+    config.password,
+    false,
+    getApiBaseUrl(),
+    config.api,
+    logger,
+  );
+
+  logger.info(
+    `👀 Watching ${targets.length} slot(s) every ${intervalMs / 1000}s ± ${jitterMs / 1000}s (run ${RUN_ID})`,
+    { event: "watch_start" },
+  );
+
+  // Slots the account already holds need no watching. The list is only an
+  // optimization (its fields are unverified), so watching goes on without it.
+  let held: Reservation[] = [];
+  try {
+    held = await client.listReservations();
+  } catch (error) {
+    logger.warn(
+      `⚠️  Could not read the reservation list, watching every slot: ${error}`,
+    );
+  }
+  targets = targets.filter((t) => {
+    const own = held.find((r) => isTargetReservation(r, t));
+    if (own) {
+      logger.info(
+        `✅ Already booked: ${describeTarget(t, config)} (id=${own.reservationId})`,
+      );
+    }
+    return !own;
+  });
+
+  const wanted = targets.length;
+  const startedAtMs = Date.now();
+  let booked = 0;
+  let stopped = false;
+  const unconfirmed = new Set<WatchTarget>(); // Transport errors not yet ruled out
+
+  while (targets.length > 0 && !stopped) {
+    for (const target of [...targets]) {
+      const name = describeTarget(target, config);
+
+      if (Date.now() >= target.startsAtMs) {
+        logger.warn(`⌛ ${name} has started, no longer watching`, {
+          event: "watch_expired",
+        });
+        targets = targets.filter((t) => t !== target);
+        continue;
+      }
+
+      const outcome = await attempt(client, target, config, unconfirmed);
+      const info = getMessageTypeInfo(outcome.status);
+      logger.info(
+        `${getStatusIcon(outcome.status)} ${name}: ${outcome.status} in ${outcome.apiCallMs}ms`,
+        {
+          event: "watch_attempt",
+          status: outcome.status,
+          apiCallMs: outcome.apiCallMs,
+          rawMessage: outcome.rawMessage,
+        },
+      );
+
+      if (outcome.status === "SUCCESS") {
+        booked++;
+        targets = targets.filter((t) => t !== target);
+        await notify(config, [outcome], startedAtMs);
+      } else if (info.terminal) {
+        logger.error(
+          `${getStatusIcon(outcome.status)} ${outcome.status}: stopping the watch - ${info.suggestion}`,
+          { event: "watch_stop", status: outcome.status },
+        );
+        await notify(config, [outcome], startedAtMs);
+        stopped = true;
+        break;
+      }
+    }
+
+    if (targets.length > 0 && !stopped) {
+      const delayMs = nextPollDelayMs(intervalMs, jitterMs);
+      logger.debug(`💤 Next poll in ${(delayMs / 1000).toFixed(0)}s`);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  client.close();
+  logger.info(`=== Watch finished: ${booked}/${wanted} booked ===`, {
+    event: "watch_end",
+    booked,
+  });
+  logger.close();
+  process.exit(booked === wanted ? 0 : 1);
+}
+
+// Run
+main().catch((error) => {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+/**
+ * Tennis Court Reservation Bot - Weekly Summary
+ *
+ * Sends a digest of the coming week's reservations on both courts, flagging
+ * configured slots that have no matching booking (meant for Monday morning
+ * from cron, so gaps can be fixed before the week starts):
+ *
+ *   node dist/scripts/weekly-summary.js                  # Today + 6 days
+ *   node dist/scripts/weekly-summary.js --from 2025-11-17 --days 7
+ *   node dist/scripts/weekly-summary.js --print          # Print, do not send
+ *
+ * Exit code is 0 when the digest was delivered (gaps or not), 1 otherwise.
+ */
+
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// Load environment
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env") });
+
+import { MobileAPIClient, getApiBaseUrl } from "../src/mobile-api-client";
+import { ConfigError, loadConfig } from "../src/config";
+import { buildWeeklyDigest } from "../src/weekly-summary";
+import { upcomingBookingWindows } from "../src/daemon";
+import { formatInstantCR, parseDateInCR, todayCR } from "../src/time-cr";
+import { Logger, dailyLogFile, isLogLevel } from "../src/logger";
+import { newRunId } from "../src/history";
+import {
+  createNotifiers,
+  formatWeeklyDigest,
+  notifyAll,
+} from "../src/notifiers";
+import { findUnknownArg, getArgValue, hasFlag } from "../src/cli-args";
+import type { AppConfig } from "../src/types";
+
+// ============================================================================
+// COMMAND LINE ARGUMENTS
+// ============================================================================
+
+const ARGS = {
+  from: getArgValue("--from"),
+  days: parseInt(getArgValue("--days") ?? "7", 10),
+  print: hasFlag("--print"),
+};
+
+const USAGE = "Usage: weekly-summary [--from YYYY-MM-DD] [--days 7] [--print]";
+
+function usage(message: string): never {
+  console.error(`❌ ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+// Checked before anything is sent: a mistyped flag must not email the digest
+if (hasFlag("--help")) {
+  console.log(USAGE);
+  process.exit(0);
+}
+const unknownArg = findUnknownArg(["--from", "--days"], ["--print"]);
+if (unknownArg !== null) usage(`Unknown argument "${unknownArg}"`);
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+const LOG_DIR = path.join(__dirname, "..", "..", "logs");
+const logger = Logger.create({
+  runId: newRunId(),
+  file: dailyLogFile(LOG_DIR),
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+});
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  if (!Number.isInteger(ARGS.days) || ARGS.days < 1 || ARGS.days > 31) {
+    usage("--days must be between 1 and 31");
+  }
+  let from = todayCR();
+  if (ARGS.from) {
+    try {
+      from = parseDateInCR(ARGS.from);
+    } catch (error) {
+      usage(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  let config: AppConfig;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+  logger.setLevel(config.logging.level);
+
+  if (!config.username || !config.password) {
+    logger.error("❌ Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)");
+    process.exit(1);
+  }
+
+  const client = new MobileAPIClient(
+    config.username,
+    config.password,
+    false,
+    getApiBaseUrl(),
+    config.api,
+    logger,
+  );
+  const reservations = await client.listReservations();
+  client.close();
+
+  const digest = buildWeeklyDigest(config, reservations, from, ARGS.days);
+  // When the booking window opens, not when the daemon starts reserve.js for it
+  const next = upcomingBookingWindows(config, config.daemon.leadMs)[0];
+  const notification = formatWeeklyDigest(
+    digest,
+    next ? `${formatInstantCR(next.opensAtMs)} CR` : null,
+  );
+
+  logger.info(
+    `🗓️  ${digest.from} to ${digest.to}: ${digest.reservations.length} reservation(s), ` +
+      `${digest.gaps.length} configured slot(s) not booked`,
+    {
+      event: "weekly_summary",
+      reservations: digest.reservations.length,
+      gaps: digest.gaps.length,
+    },
+  );
+  for (const gap of digest.gaps) {
+    logger.warn(
+      `❌ Not booked: ${gap.courtName} ${gap.date} (${gap.dayOfWeek}) ${gap.timeSlot}`,
+    );
+  }
+
+  if (ARGS.print) {
+    console.log(`\n${notification.subject}\n\n${notification.text}`);
+    return;
+  }
+
+  const results = await notifyAll(createNotifiers(config), notification);
+  for (const r of results) {
+    if (r.ok) {
+      logger.info(`📣 ${r.name}: delivered`, {
+        event: "notify",
+        notifier: r.name,
+      });
+    } else {
+      logger.error(`📣 ${r.name}: failed - ${r.detail}`, {
+        event: "notify_failed",
+        notifier: r.name,
+      });
+    }
+  }
+  logger.close();
+  process.exit(results.some((r) => r.ok) ? 0 : 1);
+}
+
+// Run
+main().catch((error) => {
+  console.error(`Fatal error: ${error}`);
+  process.exit(1);
+});
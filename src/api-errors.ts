@@ -0,0 +1,139 @@
+/**
+ * Typed errors for SAS API requests
+ *
+ * Every failure of a request to the mobile API is one of these, so callers
+ * (and the summary email) can tell a dropped connection from a timeout, an
+ * HTTP error page or a garbled response, instead of one generic message.
+ *
+ * `retryable` says whether repeating the request may succeed;
+ * `maybeProcessed` says whether the server may already have acted on it.
+ * Reads are retried whenever `retryable`; booking writes only when the
+ * request provably never reached the server (see MobileAPIClient).
+ */
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "http"
+  | "malformed"
+  | "payload";
+
+// Connection errors raised before any byte of the request was sent
+const NOT_SENT_CODES = [
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+];
+
+// Longest response excerpt kept in error messages
+const SNIPPET_LENGTH = 120;
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ApiErrorKind,
+    public readonly retryable: boolean,
+    public readonly maybeProcessed: boolean,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * The connection failed (DNS, refused, reset, ...)
+ *
+ * `staleSocket`: a reused keep-alive socket was reset before any response
+ * byte arrived. The server had closed the idle connection, so the request
+ * never reached it and can be re-sent on a fresh socket.
+ */
+export class NetworkError extends ApiError {
+  constructor(
+    public readonly code: string,
+    detail: string,
+    public readonly staleSocket: boolean = false,
+  ) {
+    super(
+      staleSocket
+        ? `Network error (${code}): ${detail} (idle keep-alive socket closed by the server)`
+        : `Network error (${code}): ${detail}`,
+      "network",
+      true,
+      !staleSocket && !NOT_SENT_CODES.includes(code),
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * No complete response before the deadline
+ */
+export class TimeoutError extends ApiError {
+  constructor(
+    public readonly timeoutMs: number,
+    public readonly gotHeaders: boolean,
+  ) {
+    super(
+      gotHeaders
+        ? `Response not completed within ${timeoutMs}ms`
+        : `No response from the server within ${timeoutMs}ms`,
+      "timeout",
+      true,
+      true,
+    );
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * The server answered with a non-2xx status (error page, rate limit, ...)
+ */
+export class HttpStatusError extends ApiError {
+  constructor(
+    public readonly status: number,
+    body: string,
+  ) {
+    super(
+      `Server returned HTTP ${status}: ${snippet(body)}`,
+      "http",
+      status >= 500 || status === 429 || status === 408,
+      status >= 500,
+    );
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * The body is not the expected JSONP (truncated, HTML, invalid JSON)
+ */
+export class MalformedResponseError extends ApiError {
+  constructor(detail: string, body: string) {
+    super(
+      `Unreadable server response (${detail}): ${snippet(body)}`,
+      "malformed",
+      true,
+      true,
+    );
+    this.name = "MalformedResponseError";
+  }
+}
+
+/**
+ * Valid JSONP, but not the shape this client understands
+ */
+export class UnexpectedPayloadError extends ApiError {
+  constructor(detail: string) {
+    super(`Unexpected response payload: ${detail}`, "payload", false, true);
+    this.name = "UnexpectedPayloadError";
+  }
+}
+
+function snippet(body: string): string {
+  const text = body.replace(/\s+/g, " ").trim();
+  if (text === "") return "(empty body)";
+  return text.length > SNIPPET_LENGTH
+    ? `${text.slice(0, SNIPPET_LENGTH)}...`
+    : text;
+}
@@ -0,0 +1,108 @@
+/**
+ * Slot availability for a court and date
+ *
+ * Combines the local schedule mapping (getAvailableTimeSlots) with what the
+ * server exposes for that day (DayAvailability) and the court's booking
+ * window (daysAhead), into one status per slot.
+ *
+ * Other members' bookings are not known, so a slot is at best "not-booked"
+ * (not yours and inside the booking window), never "free".
+ */
+
+import { getAvailableTimeSlots, getScheduleMapping } from "./schedule-resolver";
+import { slotStartMinutes } from "./schedule-sync";
+import {
+  addDaysCR,
+  crMidnightMs,
+  getDayOfWeek,
+  ymdCR,
+  type CRDate,
+} from "./time-cr";
+import type { DayAvailability } from "./mobile-api-client";
+
+export type SlotStatus = "yours" | "not-booked" | "not-open" | "past";
+
+export interface SlotAvailability {
+  timeSlot: string; // Format: "06:00 AM - 07:00 AM"
+  scheduleId: string;
+  status: SlotStatus;
+  detail: string; // Why, e.g. "yours, id=1234" or "opens 2025-11-10 00:00 CR"
+}
+
+export interface AvailabilityReport {
+  areaId: string;
+  date: string; // YYYY-MM-DD
+  opensAtMs: number; // When the booking window for this date opens
+  slots: SlotAvailability[];
+}
+
+/**
+ * Work out the status of every slot of a court on a date
+ *
+ * @param daysAhead - The court's booking window (CONFIG.courts.*.daysAhead)
+ */
+export function computeAvailability(
+  courtId: "5" | "7",
+  date: CRDate,
+  day: DayAvailability,
+  daysAhead: number,
+  nowMs: number = Date.now(),
+): AvailabilityReport {
+  const dayOfWeek = getDayOfWeek(date);
+  const mapping = getScheduleMapping(courtId)[dayOfWeek] ?? {};
+  const opensAtMs = crMidnightMs(addDaysCR(date, -daysAhead));
+  const ymd = ymdCR(date);
+
+  // Local mapping first; slots only the server knows about are appended
+  const slots = new Map<string, string>();
+  for (const timeSlot of getAvailableTimeSlots(courtId, dayOfWeek)) {
+    slots.set(timeSlot, mapping[timeSlot]);
+  }
+  for (const entry of day.schedules) {
+    if (!slots.has(entry.timeSlot)) {
+      slots.set(entry.timeSlot, entry.scheduleId);
+    }
+  }
+
+  const result: SlotAvailability[] = [...slots.entries()]
+    .sort(([a], [b]) => slotStartMinutes(a) - slotStartMinutes(b))
+    .map(([timeSlot, scheduleId]) => {
+      const status = (s: SlotStatus, detail: string = "") => ({
+        timeSlot,
+        scheduleId,
+        status: s,
+        detail,
+      });
+
+      const own = day.ownReservations.find((r) => r.scheduleId === scheduleId);
+      if (own) {
+        return status("yours", `id=${own.reservationId}`);
+      }
+      if (
+        nowMs >=
+        crMidnightMs(date) + slotStartMinutes(timeSlot) * 60 * 1000
+      ) {
+        return status("past", "already started");
+      }
+      if (nowMs < opensAtMs) {
+        return status(
+          "not-open",
+          `opens ${ymdCR(addDaysCR(date, -daysAhead))} 00:00 CR`,
+        );
+      }
+      if (!mapping[timeSlot]) {
+        return status(
+          "not-booked",
+          "not in the local mapping (run sync-schedules)",
+        );
+      }
+      return status("not-booked");
+    });
+
+  return {
+    areaId: courtId,
+    date: ymd,
+    opensAtMs,
+    slots: result,
+  };
+}
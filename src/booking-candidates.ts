@@ -0,0 +1,69 @@
+/**
+ * Booking Candidates
+ *
+ * Expands a court's preferred slot plus its configured fallbacks into the
+ * ordered list of (court, time slot) pairs to try for a target date
+ */
+
+import type { AppConfig, CourtConfig, CourtKey } from "./types";
+
+export interface BookingCandidate {
+  court: CourtConfig;
+  timeSlot: string;
+  preference: number; // 1 = preferred slot, 2 = first fallback, ...
+}
+
+/**
+ * Build the ordered candidate list for a court on a given weekday
+ *
+ * @param config - App config (needed to resolve fallbacks to the other court)
+ * @param courtKey - The court whose booking window opened
+ * @param dayOfWeek - Weekday of the target date (e.g., "Monday")
+ * @param preferredTime - Preferred slot (CLI override or the configured slot)
+ * @param daysUntilTarget - Days from today to the target date, if booking
+ *   now: fallbacks on a court whose window has not reached that date yet
+ *   (daysAhead is smaller, e.g. court1 at 9 days falling back to court2 at 8)
+ *   are left out, since they can only answer NOT_YET_AVAILABLE
+ * @returns Candidates in order, duplicates removed
+ */
+export function getBookingCandidates(
+  config: AppConfig,
+  courtKey: CourtKey,
+  dayOfWeek: string,
+  preferredTime: string,
+  daysUntilTarget?: number,
+): BookingCandidate[] {
+  const court = config.courts[courtKey];
+  const fallbacks = court.fallbacks?.[dayOfWeek] ?? [];
+
+  const candidates: BookingCandidate[] = [];
+  const seen = new Set<string>();
+
+  const add = (candidateCourt: CourtConfig, timeSlot: string) => {
+    const key = `${candidateCourt.areaId}|${timeSlot}`;
+    if (seen.has(key)) return;
+    if (
+      candidates.length > 0 &&
+      daysUntilTarget !== undefined &&
+      daysUntilTarget > candidateCourt.daysAhead
+    ) {
+      return;
+    }
+    seen.add(key);
+    candidates.push({
+      court: candidateCourt,
+      timeSlot,
+      preference: candidates.length + 1,
+    });
+  };
+
+  add(court, preferredTime);
+  for (const fallback of fallbacks) {
+    add(
+      config.courts[fallback.court ?? courtKey],
+      fallback.time ?? preferredTime,
+    );
+  }
+
+  return candidates;
+}
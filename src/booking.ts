@@ -0,0 +1,324 @@
+/**
+ * Booking
+ *
+ * Submits a reservation for one slot (as a burst when racing the window
+ * opening) and walks a court's candidate list until one succeeds. Used by
+ * reserve.ts at midnight and by the control API for on-demand bookings.
+ */
+
+import { MobileAPIClient } from "./mobile-api-client";
+import { ApiError } from "./api-errors";
+import { resolveScheduleId } from "./schedule-resolver";
+import { formatTiming } from "./http-transport";
+import { formatDateForUrl, getDayOfWeek, ymdCR, type CRDate } from "./time-cr";
+import {
+  classifyMessage,
+  getMessageTypeInfo,
+  getStatusIcon,
+  type MessageType,
+} from "./message-classifier";
+import type { BookingCandidate } from "./booking-candidates";
+import type { Logger } from "./logger";
+import type {
+  AttemptSummary,
+  CourtConfig,
+  RequestTiming,
+  ReservationOutcome,
+  TimingConfig,
+} from "./types";
+
+export interface BurstOptions {
+  attempts: number; // Number of submissions (1 = single request)
+  spacingMs: number; // Delay between consecutive submissions
+}
+
+interface AttemptResult {
+  type: MessageType;
+  friendlyMessage: string;
+  rawMessage: string;
+  apiCallMs: number;
+  telemetry?: RequestTiming;
+}
+
+/**
+ * Book one slot and classify the result (never throws: failures come back
+ * as an outcome)
+ *
+ * A write that failed in transit may still have booked the slot, and a
+ * later submission then reports SLOT_TAKEN for our own booking. So after a
+ * TRANSPORT_ERROR, the reservation list decides between SUCCESS and the
+ * failure (before reserveWithFallbacks moves on to another slot).
+ *
+ * @param mayBeBooked - An earlier request for this slot may have booked it
+ *   (watch: a previous poll's unconfirmed TRANSPORT_ERROR)
+ */
+export async function reserveCourt(
+  client: MobileAPIClient,
+  courtConfig: CourtConfig,
+  targetDate: CRDate,
+  timeSlot: string,
+  logger: Logger,
+  burst: BurstOptions = { attempts: 1, spacingMs: 0 },
+  mayBeBooked: boolean = false,
+): Promise<ReservationOutcome> {
+  const courtId = courtConfig.areaId as "5" | "7";
+  const dayString = formatDateForUrl(targetDate);
+  const dayOfWeek = getDayOfWeek(targetDate);
+  const courtLog = logger.child({ court: courtConfig.name });
+
+  let scheduleId: string;
+  try {
+    // Resolve schedule ID
+    scheduleId = resolveScheduleId(courtId, targetDate, timeSlot);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    courtLog.error(`❌ Exception - ${errorMessage}`, {
+      event: "schedule_error",
+    });
+    return {
+      courtName: courtConfig.name,
+      areaId: courtId,
+      status: "UNKNOWN",
+      friendlyMessage: `Unexpected error: ${errorMessage}`,
+      rawMessage: errorMessage,
+      date: dayString,
+      time: timeSlot,
+      apiCallMs: 0,
+    };
+  }
+
+  courtLog.info(
+    `📋 date=${dayString} (${dayOfWeek}), time=${timeSlot}, schedule=${scheduleId}` +
+      (burst.attempts > 1
+        ? `, burst=${burst.attempts}x${burst.spacingMs}ms`
+        : ""),
+    { event: "target", date: dayString, timeSlot, scheduleId },
+  );
+
+  const attempt = async (n: number): Promise<AttemptResult> => {
+    const startTime = Date.now();
+    try {
+      const result = await client.createReservation({
+        area: courtId,
+        day: dayString,
+        schedule: scheduleId,
+      });
+      const elapsed = Date.now() - startTime;
+      const classified = classifyMessage(result.message);
+      courtLog.info(
+        `⏱️  attempt #${n} ${classified.type} in ${elapsed}ms` +
+          (result.timing ? ` [${formatTiming(result.timing)}]` : ""),
+        {
+          event: "attempt",
+          attempt: n,
+          status: classified.type,
+          apiCallMs: elapsed,
+          rawMessage: classified.rawMessage,
+          timing: result.timing,
+        },
+      );
+      return { ...classified, apiCallMs: elapsed, telemetry: result.timing };
+    } catch (error) {
+      const elapsed = Date.now() - startTime;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      // ApiError: the request itself failed (no usable server message)
+      const type: MessageType =
+        error instanceof ApiError ? "TRANSPORT_ERROR" : "UNKNOWN";
+      courtLog.error(
+        `${getStatusIcon(type)} attempt #${n} ${type} in ${elapsed}ms - ${errorMessage}`,
+        {
+          event: "attempt",
+          attempt: n,
+          status: type,
+          apiCallMs: elapsed,
+          errorKind: error instanceof ApiError ? error.kind : undefined,
+        },
+      );
+      return {
+        type,
+        friendlyMessage:
+          error instanceof ApiError
+            ? errorMessage
+            : `Unexpected error: ${errorMessage}`,
+        rawMessage: errorMessage,
+        apiCallMs: elapsed,
+      };
+    }
+  };
+
+  // Launch submissions spaced apart until one returns a terminal result.
+  // Requests already in flight are still awaited below, so a late SUCCESS
+  // is never lost.
+  const burstStart = Date.now();
+  const inFlight: Promise<AttemptResult>[] = [];
+  let settled = false;
+  let settle = () => {};
+  // Ends the wait for the next send slot as soon as the burst is decided
+  const settledSignal = new Promise<void>((resolve) => (settle = resolve));
+
+  for (let n = 1; n <= burst.attempts && !settled; n++) {
+    const sendAt = burstStart + (n - 1) * burst.spacingMs;
+    const waitMs = sendAt - Date.now();
+    if (waitMs > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        new Promise((resolve) => (timer = setTimeout(resolve, waitMs))),
+        settledSignal,
+      ]);
+      clearTimeout(timer);
+    }
+    if (settled) break;
+
+    inFlight.push(
+      attempt(n).then((r) => {
+        // Only retryable results (e.g. NOT_YET_AVAILABLE) are worth resending
+        if (!getMessageTypeInfo(r.type).retryable) {
+          settled = true;
+          settle();
+        }
+        return r;
+      }),
+    );
+  }
+
+  const attempts = await Promise.all(inFlight);
+  let chosen = pickBurstResult(attempts);
+
+  let unconfirmed = false;
+  if (
+    (mayBeBooked || attempts.some((a) => a.type === "TRANSPORT_ERROR")) &&
+    (chosen.type === "SLOT_TAKEN" || chosen.type === "TRANSPORT_ERROR")
+  ) {
+    try {
+      const own = (await client.listReservations()).find(
+        (r) =>
+          r.areaId === courtId &&
+          r.date === ymdCR(targetDate) &&
+          r.scheduleId === scheduleId,
+      );
+      if (own) {
+        courtLog.info(
+          `🔎 ${chosen.type}, but the reservation is listed (id=${own.reservationId})`,
+          { event: "confirmed", reservationId: own.reservationId },
+        );
+        chosen = {
+          ...chosen,
+          type: "SUCCESS",
+          friendlyMessage: `Reservation successful (confirmed in the reservation list after ${chosen.type})`,
+        };
+      }
+    } catch (error) {
+      unconfirmed = true;
+      courtLog.warn(`⚠️  Could not check the reservation list: ${error}`);
+    }
+  }
+
+  if (chosen.type === "SUCCESS") {
+    courtLog.info(`✅ ${chosen.friendlyMessage}`, {
+      event: "result",
+      status: chosen.type,
+    });
+  } else {
+    const icon = getStatusIcon(chosen.type);
+    courtLog.error(`${icon} ${chosen.type} - ${chosen.friendlyMessage}`, {
+      event: "result",
+      status: chosen.type,
+    });
+  }
+
+  return {
+    courtName: courtConfig.name,
+    areaId: courtId,
+    scheduleId,
+    status: chosen.type,
+    friendlyMessage: chosen.friendlyMessage,
+    rawMessage: chosen.rawMessage,
+    date: dayString,
+    time: timeSlot,
+    apiCallMs: chosen.apiCallMs,
+    burstAttempts: attempts.length,
+    telemetry: chosen.telemetry,
+    ...(unconfirmed ? { unconfirmed } : {}),
+  };
+}
+
+/**
+ * Reconcile burst results: any SUCCESS wins (an earlier attempt may have
+ * booked the slot that a later one then reports as taken), then the most
+ * decisive failure (terminal, then non-retryable), then the last result.
+ */
+function pickBurstResult(attempts: AttemptResult[]): AttemptResult {
+  return (
+    attempts.find((a) => a.type === "SUCCESS") ??
+    attempts.find((a) => getMessageTypeInfo(a.type).terminal) ??
+    attempts.find((a) => !getMessageTypeInfo(a.type).retryable) ??
+    attempts[attempts.length - 1]
+  );
+}
+
+/**
+ * Try each candidate in order until one succeeds.
+ * Moves on only when the result suggests a fallback (slot taken, court
+ * closed); any other result (e.g. RESERVATION_LIMIT or an unrecognized
+ * response) ends the attempt, since trying more slots cannot help.
+ *
+ * @param onAttempt - Called with every candidate's outcome, in order (for
+ *   the history store)
+ */
+export async function reserveWithFallbacks(
+  client: MobileAPIClient,
+  candidates: BookingCandidate[],
+  targetDate: CRDate,
+  timing: Pick<TimingConfig, "burstAttempts" | "burstSpacingMs">,
+  logger: Logger,
+  onAttempt: (outcome: ReservationOutcome) => void = () => {},
+): Promise<ReservationOutcome> {
+  const tried: AttemptSummary[] = [];
+  let outcome: ReservationOutcome | null = null;
+
+  for (const candidate of candidates) {
+    if (candidate.preference > 1) {
+      logger.info(
+        `🔁 Trying preference #${candidate.preference}: ${candidate.court.name} at ${candidate.timeSlot}`,
+      );
+    }
+
+    // Only the preferred slot races the window opening; once it reports
+    // SLOT_TAKEN the date is open, so fallbacks need a single request
+    outcome = await reserveCourt(
+      client,
+      candidate.court,
+      targetDate,
+      candidate.timeSlot,
+      logger,
+      candidate.preference === 1
+        ? {
+            attempts: timing.burstAttempts,
+            spacingMs: timing.burstSpacingMs,
+          }
+        : undefined,
+    );
+    outcome.preference = candidate.preference;
+    onAttempt(outcome);
+    tried.push({
+      courtName: outcome.courtName,
+      time: candidate.timeSlot,
+      status: outcome.status,
+    });
+
+    if (getMessageTypeInfo(outcome.status).action !== "fallback") {
+      break;
+    }
+  }
+
+  const info = getMessageTypeInfo(outcome!.status);
+  if (outcome!.status !== "SUCCESS" && info.terminal) {
+    logger.warn(
+      `${getStatusIcon(outcome!.status)} ${outcome!.status}, not trying further fallbacks: ${info.suggestion}`,
+      { court: outcome!.courtName, event: "terminal", status: outcome!.status },
+    );
+  }
+
+  return { ...outcome!, tried };
+}
@@ -0,0 +1,63 @@
+/**
+ * Command line argument helpers shared by the scripts/ commands
+ */
+
+/**
+ * Get the value following a flag (e.g. --target-date 2025-11-19)
+ */
+export function getArgValue(argName: string): string | null {
+  const index = process.argv.indexOf(argName);
+  return index !== -1 && index + 1 < process.argv.length
+    ? process.argv[index + 1]
+    : null;
+}
+
+/**
+ * Check whether a boolean flag (e.g. --test) was passed
+ */
+export function hasFlag(argName: string): boolean {
+  return process.argv.includes(argName);
+}
+
+/**
+ * Map a court number from the command line ("1" or "2") to its area ID
+ */
+export function courtArgToAreaId(court: string | null): "5" | "7" | null {
+  if (court === "1" || court === "5") return "5";
+  if (court === "2" || court === "7") return "7";
+  return null;
+}
+
+/**
+ * Get every value of a repeatable flag (e.g. --target a --target b)
+ */
+export function getArgValues(argName: string): string[] {
+  const values: string[] = [];
+  process.argv.forEach((arg, index) => {
+    if (arg === argName && index + 1 < process.argv.length) {
+      values.push(process.argv[index + 1]);
+    }
+  });
+  return values;
+}
+
+/**
+ * The first argument that is neither a known flag nor the value of one
+ *
+ * @param valueFlags - Flags followed by a value (e.g. --from)
+ * @param flags - Boolean flags (e.g. --print)
+ */
+export function findUnknownArg(
+  valueFlags: string[],
+  flags: string[],
+): string | null {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (valueFlags.includes(args[i])) {
+      i++;
+    } else if (!flags.includes(args[i])) {
+      return args[i];
+    }
+  }
+  return null;
+}
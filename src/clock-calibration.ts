@@ -0,0 +1,120 @@
+/**
+ * Server Clock Calibration
+ *
+ * The booking window opens at midnight on the SAS server's clock, not ours.
+ * This estimates the server clock offset from HTTP Date headers, NTP-style:
+ * each sample is compared against the midpoint of its request, and the best
+ * (lowest round-trip) sample anchors the estimate.
+ *
+ * Date headers only have 1-second resolution, so samples are sent at
+ * staggered sub-second phases. Each sample bounds the offset to an interval
+ * (server second + request duration); intersecting those intervals narrows
+ * the estimate well below one second.
+ */
+
+import type { ClockProbe, MobileAPIClient } from "./mobile-api-client";
+
+export interface ClockCalibration {
+  offsetMs: number; // server time - local time (positive = server ahead)
+  uncertaintyMs: number; // ± half-width of the estimate
+  bestRttMs: number; // Lowest round trip among the samples
+  samples: number; // Successful samples used
+  method: "intersection" | "best-sample";
+}
+
+export interface CalibrationOptions {
+  samples?: number;
+  // Called with each probe error; failed samples are skipped
+  onSampleError?: (error: unknown) => void;
+}
+
+const DATE_RESOLUTION_MS = 1000;
+const DEFAULT_SAMPLES = 8;
+
+/**
+ * Estimate the server clock offset from several lightweight requests
+ *
+ * @throws Error if no sample succeeded
+ */
+export async function calibrateServerClock(
+  client: MobileAPIClient,
+  options: CalibrationOptions = {},
+): Promise<ClockCalibration> {
+  const sampleCount = options.samples ?? DEFAULT_SAMPLES;
+  // Space samples by just over a second, so each one lands at a different
+  // phase of the server's second
+  const spacingMs = DATE_RESOLUTION_MS + DATE_RESOLUTION_MS / sampleCount;
+
+  const probes: ClockProbe[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    const started = Date.now();
+    try {
+      probes.push(await client.probeServerClock());
+    } catch (error) {
+      options.onSampleError?.(error);
+    }
+
+    if (i < sampleCount - 1) {
+      const waitMs = Math.max(spacingMs - (Date.now() - started), 0);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  if (probes.length === 0) {
+    throw new Error("Clock calibration failed: no successful samples");
+  }
+
+  return estimateOffset(probes);
+}
+
+/**
+ * Combine clock samples into an offset estimate
+ */
+export function estimateOffset(probes: ClockProbe[]): ClockCalibration {
+  // The server stamped the Date header at some local instant within
+  // [sentAt, receivedAt], and its true time was within [date, date + 1s)
+  let lower = -Infinity;
+  let upper = Infinity;
+  for (const p of probes) {
+    lower = Math.max(lower, p.serverDateMs - p.receivedAtMs);
+    upper = Math.min(upper, p.serverDateMs + DATE_RESOLUTION_MS - p.sentAtMs);
+  }
+
+  const best = probes.reduce((a, b) => (rtt(b) < rtt(a) ? b : a));
+
+  if (lower <= upper) {
+    return {
+      offsetMs: (lower + upper) / 2,
+      uncertaintyMs: (upper - lower) / 2,
+      bestRttMs: rtt(best),
+      samples: probes.length,
+      method: "intersection",
+    };
+  }
+
+  // Inconsistent intervals (e.g. the server clock stepped): fall back to the
+  // NTP-style estimate from the single best sample
+  const midpoint = (best.sentAtMs + best.receivedAtMs) / 2;
+  return {
+    offsetMs: best.serverDateMs + DATE_RESOLUTION_MS / 2 - midpoint,
+    uncertaintyMs: DATE_RESOLUTION_MS / 2 + rtt(best) / 2,
+    bestRttMs: rtt(best),
+    samples: probes.length,
+    method: "best-sample",
+  };
+}
+
+/**
+ * Format a calibration for logs and emails (e.g. "+120ms ±35ms")
+ */
+export function formatCalibration(c: ClockCalibration): string {
+  const sign = c.offsetMs >= 0 ? "+" : "";
+  return (
+    `${sign}${c.offsetMs.toFixed(0)}ms ±${c.uncertaintyMs.toFixed(0)}ms ` +
+    `(best RTT ${c.bestRttMs.toFixed(0)}ms, ${c.samples} samples, ${c.method})`
+  );
+}
+
+function rtt(p: ClockProbe): number {
+  return p.receivedAtMs - p.sentAtMs;
+}
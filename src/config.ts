@@ -0,0 +1,657 @@
+/**
+ * Configuration loader
+ *
+ * Loads court schedules and email settings from config.json (or the file in
+ * CONFIG_FILE) and validates them, so changing a weekly slot does not need a
+ * TypeScript edit and rebuild. Secrets stay in environment variables.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { isTimeSlotAvailable } from "./schedule-resolver";
+import { getBookingCandidates } from "./booking-candidates";
+import { LOG_LEVELS, isLogLevel } from "./logger";
+import { DEFAULT_API_CONFIG } from "./mobile-api-client";
+import type { DayOfWeek } from "../schedule-ids-complete";
+import type {
+  ApiConfig,
+  AppConfig,
+  CourtConfig,
+  CourtKey,
+  DaemonConfig,
+  LoggingConfig,
+  NotifierConfig,
+  TimingConfig,
+  WatchConfig,
+} from "./types";
+
+/**
+ * Default config file (repo root; this module runs from dist/src/)
+ */
+export const DEFAULT_CONFIG_FILE = path.join(
+  __dirname,
+  "..",
+  "..",
+  "config.json",
+);
+
+const DAYS_OF_WEEK: DayOfWeek[] = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+const COURT_KEYS = ["court1", "court2"] as const;
+const AREA_IDS = ["5", "7"];
+const NOTIFIER_TYPES = ["resend", "smtp", "webhook", "console", "file"];
+const TIME_SLOT_PATTERN = /^\d{2}:\d{2} (AM|PM) - \d{2}:\d{2} (AM|PM)$/;
+
+/**
+ * Thrown when the config file is missing, unreadable or invalid.
+ * `problems` lists every issue found, not just the first one.
+ */
+export class ConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly problems: string[],
+  ) {
+    super(
+      `Invalid config ${file}:\n` + problems.map((p) => `  - ${p}`).join("\n"),
+    );
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Resolve which config file to use (CONFIG_FILE env var or config.json)
+ */
+export function getConfigPath(): string {
+  return process.env.CONFIG_FILE
+    ? path.resolve(process.env.CONFIG_FILE)
+    : DEFAULT_CONFIG_FILE;
+}
+
+/**
+ * Load, validate and return the app config, merged with environment secrets
+ *
+ * @throws ConfigError listing every schema or schedule problem found
+ */
+export function loadConfig(file: string = getConfigPath()): AppConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(file, [`Could not read config file: ${reason}`]);
+  }
+
+  const problems = validateConfigShape(raw);
+  if (problems.length > 0) {
+    throw new ConfigError(file, problems);
+  }
+
+  const fileConfig = raw as FileConfig;
+  const config: AppConfig = {
+    loginUrl: fileConfig.loginUrl,
+    username: process.env.TENNIS_USERNAME,
+    password: process.env.TENNIS_PASSWORD,
+    emailTo: process.env.TO_EMAIL_ADDRESS || fileConfig.emailTo || "",
+    emailFrom: process.env.FROM_EMAIL_ADDRESS
+      ? `Tennis Reservations <${process.env.FROM_EMAIL_ADDRESS}>`
+      : fileConfig.emailFrom,
+    resendApiKey: process.env.RESEND_API_KEY,
+    courts: fileConfig.courts,
+    timing: { ...DEFAULT_TIMING, ...fileConfig.timing },
+    notifiers: fileConfig.notifiers ?? [{ type: "resend" }],
+    logging: {
+      ...DEFAULT_LOGGING,
+      ...fileConfig.logging,
+      ...(isLogLevel(process.env.LOG_LEVEL)
+        ? { level: process.env.LOG_LEVEL }
+        : {}),
+    },
+    api: { ...DEFAULT_API_CONFIG, ...fileConfig.api },
+    watch: { ...DEFAULT_WATCH, ...fileConfig.watch },
+    daemon: { ...DEFAULT_DAEMON, ...fileConfig.daemon },
+  };
+
+  const scheduleProblems = checkSlotsExist(config);
+  const sendsEmail = config.notifiers.some(
+    (n) => n.type === "resend" || n.type === "smtp",
+  );
+  if (sendsEmail && !config.emailTo) {
+    scheduleProblems.push(
+      "emailTo: not set (add it to the config file or set TO_EMAIL_ADDRESS)",
+    );
+  }
+  if (scheduleProblems.length > 0) {
+    throw new ConfigError(file, scheduleProblems);
+  }
+
+  return config;
+}
+
+/**
+ * Shape of the JSON config file (AppConfig without secrets)
+ */
+interface FileConfig {
+  loginUrl: string;
+  emailTo?: string;
+  emailFrom: string;
+  courts: AppConfig["courts"];
+  timing?: Partial<TimingConfig>;
+  notifiers?: NotifierConfig[];
+  logging?: Partial<LoggingConfig>;
+  api?: Partial<ApiConfig>;
+  watch?: Partial<WatchConfig>;
+  daemon?: Partial<DaemonConfig>;
+}
+
+const DEFAULT_TIMING: TimingConfig = {
+  fireOffsetMs: 0,
+  calibrateClock: true,
+  calibrationSamples: 8,
+  burstAttempts: 3,
+  burstSpacingMs: 40,
+  warmupLeadMs: 3000,
+};
+
+const DEFAULT_WATCH: WatchConfig = {
+  intervalMs: 120000,
+  jitterMs: 30000,
+};
+
+const DEFAULT_DAEMON: DaemonConfig = {
+  leadMs: 120000,
+};
+
+const DEFAULT_LOGGING: LoggingConfig = {
+  level: "info",
+  retentionDays: 30,
+};
+
+/**
+ * Validate the raw JSON against the config schema
+ *
+ * @returns List of problems (empty if valid)
+ */
+export function validateConfigShape(raw: unknown): string[] {
+  const problems: string[] = [];
+
+  if (!isObject(raw)) {
+    return ["Config must be a JSON object"];
+  }
+
+  expectString(raw, "loginUrl", "loginUrl", problems);
+  expectString(raw, "emailFrom", "emailFrom", problems);
+  if (raw.emailTo !== undefined) {
+    expectString(raw, "emailTo", "emailTo", problems);
+  }
+
+  if (raw.timing !== undefined) {
+    validateTiming(raw.timing, problems);
+  }
+
+  if (raw.logging !== undefined) {
+    validateLogging(raw.logging, problems);
+  }
+
+  if (raw.notifiers !== undefined) {
+    validateNotifiers(raw.notifiers, problems);
+  }
+
+  if (raw.api !== undefined) {
+    validateApi(raw.api, problems);
+  }
+
+  if (raw.watch !== undefined) {
+    validateWatch(raw.watch, problems);
+  }
+
+  if (raw.daemon !== undefined) {
+    if (!isObject(raw.daemon)) {
+      problems.push("daemon: must be an object");
+    } else {
+      expectIntegerInRange(
+        raw.daemon,
+        "leadMs",
+        "daemon.leadMs",
+        10000,
+        1800000,
+        problems,
+      );
+    }
+  }
+
+  if (!isObject(raw.courts)) {
+    problems.push("courts: must be an object with court1 and court2");
+    return problems;
+  }
+
+  for (const key of COURT_KEYS) {
+    const court = raw.courts[key];
+    const where = `courts.${key}`;
+
+    if (!isObject(court)) {
+      problems.push(`${where}: missing or not an object`);
+      continue;
+    }
+
+    if (!AREA_IDS.includes(court.areaId as string)) {
+      problems.push(
+        `${where}.areaId: must be "5" (Court 1) or "7" (Court 2), got ${JSON.stringify(court.areaId)}`,
+      );
+    }
+    expectString(court, "name", `${where}.name`, problems);
+
+    if (
+      !Number.isInteger(court.daysAhead) ||
+      (court.daysAhead as number) < 0 ||
+      (court.daysAhead as number) > 30
+    ) {
+      problems.push(
+        `${where}.daysAhead: must be an integer between 0 and 30, got ${JSON.stringify(court.daysAhead)}`,
+      );
+    }
+
+    if (!isObject(court.slots)) {
+      problems.push(`${where}.slots: must be an object of weekday -> slot`);
+      continue;
+    }
+
+    for (const [day, slot] of Object.entries(court.slots)) {
+      if (!DAYS_OF_WEEK.includes(day as DayOfWeek)) {
+        problems.push(
+          `${where}.slots: unknown weekday "${day}" (expected one of ${DAYS_OF_WEEK.join(", ")})`,
+        );
+      }
+      if (typeof slot !== "string" || !TIME_SLOT_PATTERN.test(slot)) {
+        problems.push(
+          `${where}.slots.${day}: must look like "06:00 AM - 07:00 AM", got ${JSON.stringify(slot)}`,
+        );
+      }
+    }
+
+    if (court.fallbacks !== undefined) {
+      validateFallbacks(court.fallbacks, court.slots, where, problems);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate the optional timing section
+ */
+function validateTiming(timing: unknown, problems: string[]) {
+  if (!isObject(timing)) {
+    problems.push("timing: must be an object");
+    return;
+  }
+
+  expectIntegerInRange(
+    timing,
+    "fireOffsetMs",
+    "timing.fireOffsetMs",
+    -5000,
+    5000,
+    problems,
+  );
+  expectIntegerInRange(
+    timing,
+    "calibrationSamples",
+    "timing.calibrationSamples",
+    1,
+    30,
+    problems,
+  );
+  expectIntegerInRange(
+    timing,
+    "burstAttempts",
+    "timing.burstAttempts",
+    1,
+    10,
+    problems,
+  );
+  expectIntegerInRange(
+    timing,
+    "burstSpacingMs",
+    "timing.burstSpacingMs",
+    0,
+    1000,
+    problems,
+  );
+  expectIntegerInRange(
+    timing,
+    "warmupLeadMs",
+    "timing.warmupLeadMs",
+    0,
+    30000,
+    problems,
+  );
+  if (
+    timing.calibrateClock !== undefined &&
+    typeof timing.calibrateClock !== "boolean"
+  ) {
+    problems.push("timing.calibrateClock: must be true or false");
+  }
+}
+
+/**
+ * Validate the optional logging section
+ */
+function validateLogging(logging: unknown, problems: string[]) {
+  if (!isObject(logging)) {
+    problems.push("logging: must be an object");
+    return;
+  }
+
+  if (logging.level !== undefined && !isLogLevel(logging.level)) {
+    problems.push(
+      `logging.level: must be one of ${LOG_LEVELS.join(", ")}, got ${JSON.stringify(logging.level)}`,
+    );
+  }
+  expectIntegerInRange(
+    logging,
+    "retentionDays",
+    "logging.retentionDays",
+    0,
+    3650,
+    problems,
+  );
+}
+
+/**
+ * Validate the optional api section (request deadlines and retries)
+ */
+function validateApi(api: unknown, problems: string[]) {
+  if (!isObject(api)) {
+    problems.push("api: must be an object");
+    return;
+  }
+
+  expectIntegerInRange(
+    api,
+    "timeoutMs",
+    "api.timeoutMs",
+    100,
+    120000,
+    problems,
+  );
+  expectIntegerInRange(
+    api,
+    "bookingTimeoutMs",
+    "api.bookingTimeoutMs",
+    100,
+    60000,
+    problems,
+  );
+  expectIntegerInRange(api, "retries", "api.retries", 0, 10, problems);
+  expectIntegerInRange(
+    api,
+    "retryBaseDelayMs",
+    "api.retryBaseDelayMs",
+    0,
+    30000,
+    problems,
+  );
+  expectIntegerInRange(
+    api,
+    "bookingRetries",
+    "api.bookingRetries",
+    0,
+    3,
+    problems,
+  );
+}
+
+/**
+ * Validate the optional watch section (polling interval and jitter)
+ */
+function validateWatch(watch: unknown, problems: string[]) {
+  if (!isObject(watch)) {
+    problems.push("watch: must be an object");
+    return;
+  }
+
+  // Polite to the condominium server: no faster than every 10s
+  expectIntegerInRange(
+    watch,
+    "intervalMs",
+    "watch.intervalMs",
+    10000,
+    3600000,
+    problems,
+  );
+  expectIntegerInRange(
+    watch,
+    "jitterMs",
+    "watch.jitterMs",
+    0,
+    600000,
+    problems,
+  );
+  const intervalMs = watch.intervalMs ?? DEFAULT_WATCH.intervalMs;
+  if (
+    Number.isInteger(watch.jitterMs) &&
+    (watch.jitterMs as number) >= (intervalMs as number)
+  ) {
+    problems.push("watch.jitterMs: must be smaller than watch.intervalMs");
+  }
+}
+
+/**
+ * Validate the optional notifiers list: [{ type, ...options }, ...]
+ */
+function validateNotifiers(notifiers: unknown, problems: string[]) {
+  if (!Array.isArray(notifiers) || notifiers.length === 0) {
+    problems.push("notifiers: must be a non-empty list of { type, ... }");
+    return;
+  }
+
+  notifiers.forEach((notifier, index) => {
+    const where = `notifiers[${index}]`;
+
+    if (
+      !isObject(notifier) ||
+      !NOTIFIER_TYPES.includes(notifier.type as string)
+    ) {
+      problems.push(
+        `${where}.type: must be one of ${NOTIFIER_TYPES.join(", ")}, got ${JSON.stringify(isObject(notifier) ? notifier.type : notifier)}`,
+      );
+      return;
+    }
+
+    expectIntegerInRange(
+      notifier,
+      "retries",
+      `${where}.retries`,
+      0,
+      10,
+      problems,
+    );
+
+    switch (notifier.type) {
+      case "smtp":
+        expectString(notifier, "host", `${where}.host`, problems);
+        if (notifier.port === undefined) {
+          problems.push(`${where}.port: is required`);
+        }
+        expectIntegerInRange(
+          notifier,
+          "port",
+          `${where}.port`,
+          1,
+          65535,
+          problems,
+        );
+        for (const flag of ["secure", "startTls"]) {
+          if (
+            notifier[flag] !== undefined &&
+            typeof notifier[flag] !== "boolean"
+          ) {
+            problems.push(`${where}.${flag}: must be true or false`);
+          }
+        }
+        if (notifier.username !== undefined) {
+          expectString(notifier, "username", `${where}.username`, problems);
+        }
+        break;
+      case "webhook":
+        if (
+          typeof notifier.url !== "string" ||
+          !/^https?:\/\//.test(notifier.url)
+        ) {
+          problems.push(
+            `${where}.url: must be an http(s) URL, got ${JSON.stringify(notifier.url)}`,
+          );
+        }
+        if (
+          notifier.headers !== undefined &&
+          (!isObject(notifier.headers) ||
+            Object.values(notifier.headers).some((v) => typeof v !== "string"))
+        ) {
+          problems.push(`${where}.headers: must be an object of string values`);
+        }
+        break;
+      case "file":
+        expectString(notifier, "path", `${where}.path`, problems);
+        break;
+    }
+  });
+}
+
+/**
+ * Validate a court's fallbacks: weekday -> [{ court?, time? }, ...]
+ */
+function validateFallbacks(
+  fallbacks: unknown,
+  slots: Record<string, unknown>,
+  where: string,
+  problems: string[],
+) {
+  if (!isObject(fallbacks)) {
+    problems.push(`${where}.fallbacks: must be an object of weekday -> list`);
+    return;
+  }
+
+  for (const [day, options] of Object.entries(fallbacks)) {
+    const dayWhere = `${where}.fallbacks.${day}`;
+
+    if (slots[day] === undefined) {
+      problems.push(`${dayWhere}: no slot is configured for ${day}`);
+    }
+    if (!Array.isArray(options)) {
+      problems.push(`${dayWhere}: must be a list of { court, time } options`);
+      continue;
+    }
+
+    options.forEach((option, index) => {
+      const optionWhere = `${dayWhere}[${index}]`;
+
+      if (!isObject(option) || (!option.court && !option.time)) {
+        problems.push(
+          `${optionWhere}: must set "court" ("court1"/"court2"), "time", or both`,
+        );
+        return;
+      }
+      if (
+        option.court !== undefined &&
+        !COURT_KEYS.includes(option.court as CourtKey)
+      ) {
+        problems.push(
+          `${optionWhere}.court: must be "court1" or "court2", got ${JSON.stringify(option.court)}`,
+        );
+      }
+      if (
+        option.time !== undefined &&
+        (typeof option.time !== "string" ||
+          !TIME_SLOT_PATTERN.test(option.time))
+      ) {
+        problems.push(
+          `${optionWhere}.time: must look like "06:00 AM - 07:00 AM", got ${JSON.stringify(option.time)}`,
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Check that every configured slot has a schedule ID for that court and day
+ *
+ * @returns List of problems (empty if every slot resolves)
+ */
+export function checkSlotsExist(config: AppConfig): string[] {
+  const problems: string[] = [];
+
+  for (const key of COURT_KEYS) {
+    const court: CourtConfig = config.courts[key];
+    const courtId = court.areaId as "5" | "7";
+
+    for (const [day, slot] of Object.entries(court.slots)) {
+      if (!isTimeSlotAvailable(courtId, day as DayOfWeek, slot)) {
+        problems.push(
+          `courts.${key}.slots.${day}: no schedule ID for "${slot}" on ${court.name} (area ${courtId})`,
+        );
+      }
+
+      // Fallbacks (preference 1 is the slot itself, checked above)
+      for (const candidate of getBookingCandidates(config, key, day, slot)) {
+        const candidateId = candidate.court.areaId as "5" | "7";
+        if (
+          candidate.preference > 1 &&
+          !isTimeSlotAvailable(
+            candidateId,
+            day as DayOfWeek,
+            candidate.timeSlot,
+          )
+        ) {
+          problems.push(
+            `courts.${key}.fallbacks.${day}: no schedule ID for "${candidate.timeSlot}" on ${candidate.court.name} (area ${candidateId})`,
+          );
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectIntegerInRange(
+  obj: Record<string, unknown>,
+  key: string,
+  where: string,
+  min: number,
+  max: number,
+  problems: string[],
+) {
+  const value = obj[key];
+  if (value === undefined) return;
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < min ||
+    (value as number) > max
+  ) {
+    problems.push(
+      `${where}: must be an integer between ${min} and ${max}, got ${JSON.stringify(value)}`,
+    );
+  }
+}
+
+function expectString(
+  obj: Record<string, unknown>,
+  key: string,
+  where: string,
+  problems: string[],
+) {
+  if (typeof obj[key] !== "string" || (obj[key] as string).trim() === "") {
+    problems.push(`${where}: must be a non-empty string`);
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Local HTTP control API
+ *
+ * JSON endpoints for other household tools (and phone shortcuts) to book,
+ * list and cancel courts, look up schedule IDs and read the latest run.
+ * Every request needs `Authorization: Bearer <token>`. Bookings go through
+ * the same reserveWithFallbacks() path as reserve.ts (without the midnight
+ * burst) and are recorded in the history store like a run.
+ *
+ *   POST   /bookings                 {"court": 1, "date": "2025-11-19",
+ *                                     "time": "06:00 AM - 07:00 AM",
+ *                                     "fallbacks": false}
+ *   GET    /reservations             Reservations held by the account
+ *   DELETE /reservations/<id>?unverified=1
+ *                                    Cancel a reservation (UNVERIFIED: the
+ *                                    cancel request was never captured from
+ *                                    the app, so it must be opted into)
+ *   GET    /schedule-id?court=1&date=2025-11-19&time=06:00%20AM%20-%2007:00%20AM
+ *   GET    /runs/latest[?includeTest=1]
+ */
+
+import * as http from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import { MobileAPIClient, getApiBaseUrl } from "./mobile-api-client";
+import { ApiError } from "./api-errors";
+import { resolveScheduleId } from "./schedule-resolver";
+import { getBookingCandidates } from "./booking-candidates";
+import { reserveWithFallbacks } from "./booking";
+import { classifyMessage } from "./message-classifier";
+import { courtArgToAreaId } from "./cli-args";
+import {
+  daysBetweenCR,
+  getDayOfWeek,
+  parseDateInCR,
+  todayCR,
+  ymdCR,
+} from "./time-cr";
+import {
+  appendHistory,
+  newRunId,
+  readHistory,
+  toHistoryRecords,
+} from "./history";
+import type { Logger } from "./logger";
+import type { AppConfig, CourtKey, ReservationOutcome } from "./types";
+
+export interface ControlApiOptions {
+  token: string; // Bearer token every request must carry
+  loadConfig: () => AppConfig; // Called per request, so config edits apply
+  logger: Logger;
+}
+
+// Larger request bodies are rejected (bookings are a few dozen bytes)
+const MAX_BODY_BYTES = 16 * 1024;
+
+// On-demand bookings are not racing a window opening: one request per slot.
+// The midnight burst would have several in flight at once, which could book
+// the slot twice or use up the reservation quota.
+const ON_DEMAND_TIMING = { burstAttempts: 1, burstSpacingMs: 0 };
+
+/**
+ * A request that cannot be served, with the status to answer it with
+ */
+class RequestError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+interface Request {
+  method: string;
+  url: URL;
+  body: unknown;
+}
+
+/**
+ * Create the control API server (not yet listening)
+ */
+export function createControlApiServer(
+  options: ControlApiOptions,
+): http.Server {
+  const { logger } = options;
+  const tokenDigest = digest(options.token);
+
+  // One booking at a time: two concurrent ones would race each other
+  let bookingInProgress = false;
+
+  const route = async (req: Request): Promise<unknown> => {
+    const { method, url } = req;
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    if (method === "POST" && url.pathname === "/bookings") {
+      if (bookingInProgress) {
+        throw new RequestError(409, "A booking is already in progress");
+      }
+      bookingInProgress = true;
+      try {
+        return await book(options, req.body);
+      } finally {
+        bookingInProgress = false;
+      }
+    }
+    if (method === "GET" && url.pathname === "/reservations") {
+      const client = createClient(options.loadConfig(), logger);
+      try {
+        return { reservations: await client.listReservations() };
+      } finally {
+        client.close();
+      }
+    }
+    if (
+      method === "DELETE" &&
+      segments.length === 2 &&
+      segments[0] === "reservations"
+    ) {
+      if (url.searchParams.get("unverified") !== "1") {
+        throw new RequestError(
+          400,
+          "Cancelling is unverified against the mobile app; add ?unverified=1 to try it anyway",
+        );
+      }
+      return cancel(options, decodeURIComponent(segments[1]));
+    }
+    if (method === "GET" && url.pathname === "/schedule-id") {
+      const q = url.searchParams;
+      const { areaId, date, timeSlot } = parseSlot({
+        court: q.get("court"),
+        date: q.get("date"),
+        time: q.get("time"),
+      });
+      return {
+        areaId,
+        date: ymdCR(date),
+        dayOfWeek: getDayOfWeek(date),
+        time: timeSlot,
+        scheduleId: lookUpScheduleId(areaId, date, timeSlot),
+      };
+    }
+    if (method === "GET" && url.pathname === "/runs/latest") {
+      return latestRun(url.searchParams.get("includeTest") === "1");
+    }
+
+    throw new RequestError(404, `No route for ${method} ${url.pathname}`);
+  };
+
+  return http.createServer((req, res) => {
+    const method = req.method ?? "GET";
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const started = Date.now();
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const respond = (status: number, payload: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json; charset=utf-8",
+        ...(status === 401 ? { "WWW-Authenticate": "Bearer" } : {}),
+      });
+      res.end(JSON.stringify(payload, null, 2) + "\n");
+      logger.info(
+        `🌐 ${method} ${url.pathname} -> ${status} in ${Date.now() - started}ms`,
+        { event: "control_request", status },
+      );
+    };
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const handle = async () => {
+        if (!isAuthorized(req.headers.authorization, tokenDigest)) {
+          throw new RequestError(401, "Missing or invalid bearer token");
+        }
+        if (size > MAX_BODY_BYTES) {
+          throw new RequestError(413, "Request body too large");
+        }
+        return route({ method, url, body: parseBody(chunks) });
+      };
+
+      handle().then(
+        (payload) => respond(200, payload),
+        (error) => {
+          if (error instanceof RequestError) {
+            respond(error.status, { error: error.message });
+          } else if (error instanceof ApiError) {
+            // The SAS server (not this request) is the problem
+            respond(502, { error: error.message, kind: error.kind });
+          } else {
+            logger.error(`❌ ${method} ${url.pathname}: ${error}`, {
+              event: "control_error",
+            });
+            respond(500, {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        },
+      );
+    });
+  });
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Book a slot now, with the court's configured fallbacks if asked
+ */
+async function book(options: ControlApiOptions, body: unknown) {
+  const fields = (body ?? {}) as Record<string, unknown>;
+  const { areaId, date, timeSlot } = parseSlot(fields);
+  lookUpScheduleId(areaId, date, timeSlot);
+
+  const config = options.loadConfig();
+  const courtKey = (["court1", "court2"] as CourtKey[]).find(
+    (key) => config.courts[key].areaId === areaId,
+  );
+  if (!courtKey) {
+    throw new RequestError(400, `No court with area ${areaId} in the config`);
+  }
+
+  const candidates = getBookingCandidates(
+    config,
+    courtKey,
+    getDayOfWeek(date),
+    timeSlot,
+    daysBetweenCR(todayCR(), date),
+  );
+
+  const runId = newRunId();
+  const logger = options.logger.child({ runId });
+  const client = createClient(config, logger);
+  const attempts: ReservationOutcome[] = [];
+  let outcome: ReservationOutcome;
+  try {
+    outcome = await reserveWithFallbacks(
+      client,
+      fields.fallbacks === true ? candidates : candidates.slice(0, 1),
+      date,
+      ON_DEMAND_TIMING,
+      logger,
+      (attempt) => attempts.push(attempt),
+    );
+  } finally {
+    client.close();
+  }
+
+  try {
+    appendHistory(
+      toHistoryRecords(attempts, { runId, test: false, trigger: null }),
+    );
+  } catch (error) {
+    options.logger.error(`🗂️  Failed to save history: ${error}`);
+  }
+
+  return { ok: outcome.status === "SUCCESS", runId, outcome };
+}
+
+async function cancel(options: ControlApiOptions, reservationId: string) {
+  const client = createClient(options.loadConfig(), options.logger);
+  try {
+    const result = await client.cancelReservation(reservationId);
+    const classified = classifyMessage(result.message);
+    // The response alone proves nothing (see cancelReservation)
+    const stillListed = (await client.listReservations()).some(
+      (r) => r.reservationId === reservationId,
+    );
+    return {
+      ok: classified.type === "CANCELLED" && !stillListed,
+      unverified: true,
+      stillListed,
+      reservationId,
+      status: classified.type,
+      friendlyMessage: classified.friendlyMessage,
+      rawMessage: classified.rawMessage,
+    };
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Every history record of the most recent run
+ */
+function latestRun(includeTest: boolean) {
+  const records = readHistory().records.filter((r) => includeTest || !r.test);
+  const last = records[records.length - 1];
+  if (!last) {
+    throw new RequestError(404, "No runs recorded yet");
+  }
+  return {
+    runId: last.runId,
+    recordedAt: last.recordedAt,
+    records: records.filter((r) => r.runId === last.runId),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createClient(config: AppConfig, logger: Logger): MobileAPIClient {
+  if (!config.username || !config.password) {
+    throw new Error("Missing credentials (TENNIS_USERNAME or TENNIS_PASSWORD)");
+  }
+  return new MobileAPIClient(
+    config.username,
+    config.password,
+    false,
+    getApiBaseUrl(),
+    config.api,
+    logger,
+  );
+}
+
+/**
+ * Validate court / date / time fields (from a JSON body or a query string)
+ */
+function parseSlot(fields: Record<string, unknown>) {
+  const areaId = courtArgToAreaId(
+    fields.court === undefined || fields.court === null
+      ? null
+      : String(fields.court),
+  );
+  if (!areaId) {
+    throw new RequestError(400, '"court" must be 1 or 2');
+  }
+  if (typeof fields.time !== "string" || !fields.time.trim()) {
+    throw new RequestError(
+      400,
+      '"time" is required (e.g. "06:00 AM - 07:00 AM")',
+    );
+  }
+
+  let date;
+  try {
+    date = parseDateInCR(String(fields.date ?? ""));
+  } catch (error) {
+    throw new RequestError(400, `"date": ${(error as Error).message}`);
+  }
+
+  return { areaId, date, timeSlot: fields.time.trim() };
+}
+
+function lookUpScheduleId(
+  ...args: Parameters<typeof resolveScheduleId>
+): string {
+  try {
+    return resolveScheduleId(...args);
+  } catch (error) {
+    throw new RequestError(404, (error as Error).message);
+  }
+}
+
+function parseBody(chunks: Buffer[]): unknown {
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text.trim()) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestError(400, "Request body is not valid JSON");
+  }
+}
+
+function isAuthorized(header: string | undefined, tokenDigest: Buffer) {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  // Compare digests: constant time, whatever the token length
+  return !!match && timingSafeEqual(digest(match[1].trim()), tokenDigest);
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
@@ -0,0 +1,171 @@
+/**
+ * Booking schedule and status file for the daemon
+ *
+ * The daemon replaces the 11:58 PM crontab entry: it computes the upcoming
+ * booking windows (Costa Rica midnights at which some court's slot opens,
+ * from daysAhead and the weekday slots) and starts reserve.js shortly
+ * before each one. Everything is recomputed from the config and the clock,
+ * so a restart picks up where it left off.
+ *
+ * Its state is written to data/daemon-status.json (or DAEMON_STATUS_FILE)
+ * after every change, for `daemon status` and external monitoring.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  addDaysCR,
+  crDateFromInstant,
+  getDayOfWeek,
+  nextMidnightCRMs,
+  ymdCR,
+} from "./time-cr";
+import type { AppConfig, CourtKey } from "./types";
+
+/**
+ * Default status file (repo root; this module runs from dist/src/)
+ */
+export const DEFAULT_DAEMON_STATUS_FILE = path.join(
+  __dirname,
+  "..",
+  "..",
+  "data",
+  "daemon-status.json",
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WindowTarget {
+  court: CourtKey;
+  courtName: string;
+  date: string; // YYYY-MM-DD
+  dayOfWeek: string;
+  timeSlot: string;
+}
+
+/**
+ * A midnight at which at least one configured slot becomes bookable
+ */
+export interface BookingWindow {
+  opensAtMs: number; // Costa Rica midnight (epoch ms)
+  startAtMs: number; // When reserve.js is started (opensAtMs - leadMs)
+  targets: WindowTarget[];
+}
+
+export type DaemonState = "waiting" | "running" | "stopped";
+
+export interface DaemonStatus {
+  pid: number;
+  startedAt: string; // ISO timestamp
+  updatedAt: string;
+  state: DaemonState;
+  next: {
+    action: string; // e.g. "start reserve.js (preflight, warm-up, booking)"
+    at: string; // ISO timestamp
+    window: string; // ISO timestamp of the midnight it is for
+    targets: WindowTarget[];
+  } | null;
+  lastRun: {
+    window: string; // ISO timestamp of the midnight it was for
+    pid: number | null;
+    startedAt: string;
+    finishedAt: string | null;
+    exitCode: number | null;
+  } | null;
+}
+
+/**
+ * Resolve the status file (DAEMON_STATUS_FILE env var or the default)
+ */
+export function getDaemonStatusPath(): string {
+  return process.env.DAEMON_STATUS_FILE
+    ? path.resolve(process.env.DAEMON_STATUS_FILE)
+    : DEFAULT_DAEMON_STATUS_FILE;
+}
+
+/**
+ * Compute the next booking windows, soonest first
+ *
+ * A window that opened less than lateToleranceMs ago is still included
+ * (reserve.js fires immediately in that case, like a late cron start).
+ *
+ * @param leadMs - How long before midnight reserve.js is started
+ * @param days - How many midnights ahead to look
+ */
+export function upcomingBookingWindows(
+  config: AppConfig,
+  leadMs: number,
+  nowMs: number = Date.now(),
+  days: number = 7,
+  lateToleranceMs: number = 60_000,
+): BookingWindow[] {
+  const first = nextMidnightCRMs(nowMs, lateToleranceMs);
+  const windows: BookingWindow[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const opensAtMs = first + i * DAY_MS;
+    const today = crDateFromInstant(opensAtMs);
+    const targets: WindowTarget[] = [];
+
+    for (const court of ["court1", "court2"] as const) {
+      const courtConfig = config.courts[court];
+      const date = addDaysCR(today, courtConfig.daysAhead);
+      const dayOfWeek = getDayOfWeek(date);
+      const timeSlot = courtConfig.slots[dayOfWeek];
+      if (timeSlot) {
+        targets.push({
+          court,
+          courtName: courtConfig.name,
+          date: ymdCR(date),
+          dayOfWeek,
+          timeSlot,
+        });
+      }
+    }
+
+    if (targets.length > 0) {
+      windows.push({ opensAtMs, startAtMs: opensAtMs - leadMs, targets });
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Read the status file (null if there is none or it is unreadable)
+ */
+export function readDaemonStatus(
+  file: string = getDaemonStatusPath(),
+): DaemonStatus | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as DaemonStatus;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the status file atomically (temp file + rename)
+ */
+export function writeDaemonStatus(
+  status: DaemonStatus,
+  file: string = getDaemonStatusPath(),
+) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(status, null, 2) + "\n");
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Whether a process id is still running (e.g. a reserve.js started by a
+ * previous daemon instance)
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
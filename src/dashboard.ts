@@ -0,0 +1,344 @@
+/**
+ * Reservation history dashboard
+ *
+ * A single self-contained HTML page (inline CSS, no scripts or external
+ * assets) with the upcoming confirmed bookings per court, the latest runs
+ * from the history store and the weekly slot plan from the config. The page
+ * is rebuilt on every request; `GET /data.json` serves the same data.
+ */
+
+import * as http from "http";
+import { escapeHtml } from "./notifiers/html";
+import { getMessageTypeInfo, getStatusIcon } from "./message-classifier";
+import { slotStartMinutes } from "./schedule-sync";
+import {
+  addDaysCR,
+  formatInstantCR,
+  getDayOfWeek,
+  parseDateInCR,
+  todayCR,
+  ymdCR,
+  type CRDate,
+} from "./time-cr";
+import type { HistoryRecord } from "./history";
+import type { Reservation } from "./mobile-api-client";
+import type { Logger } from "./logger";
+import type { CourtConfig, CourtKey } from "./types";
+
+const WEEKDAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const COURT_KEYS: CourtKey[] = ["court1", "court2"];
+
+/**
+ * One run from the history store, newest attempt last
+ */
+export interface DashboardRun {
+  runId: string;
+  recordedAt: string; // ISO timestamp
+  test: boolean;
+  attempts: HistoryRecord[];
+}
+
+export interface DashboardData {
+  generatedAtMs: number;
+  courts: CourtConfig[]; // court1, court2
+  // Upcoming reservations on the configured courts (null if unavailable)
+  reservations: Reservation[] | null;
+  reservationsError: string | null;
+  runs: DashboardRun[]; // Newest first
+}
+
+export interface DashboardServerOptions {
+  // Collect fresh data for a request
+  loadData: () => Promise<DashboardData>;
+  logger: Logger;
+}
+
+/**
+ * Group history records into runs, newest first
+ */
+export function groupRuns(
+  records: HistoryRecord[],
+  limit: number,
+): DashboardRun[] {
+  const runs = new Map<string, DashboardRun>();
+  for (const r of records) {
+    const run = runs.get(r.runId);
+    if (run) {
+      run.attempts.push(r);
+    } else {
+      runs.set(r.runId, {
+        runId: r.runId,
+        recordedAt: r.recordedAt,
+        test: r.test,
+        attempts: [r],
+      });
+    }
+  }
+  return [...runs.values()].reverse().slice(0, limit);
+}
+
+/**
+ * Keep the reservations on the configured courts from today on, soonest first
+ */
+export function upcomingReservations(
+  reservations: Reservation[],
+  courts: CourtConfig[],
+  nowMs: number = Date.now(),
+): Reservation[] {
+  const today = ymdCR(todayCR(nowMs));
+  const areaIds = new Set(courts.map((c) => c.areaId));
+  return reservations
+    .filter((r) => areaIds.has(r.areaId) && r.date >= today)
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        slotStartMinutes(a.timeSlot) - slotStartMinutes(b.timeSlot) ||
+        a.courtName.localeCompare(b.courtName),
+    );
+}
+
+/**
+ * Create the dashboard server (not yet listening)
+ */
+export function createDashboardServer(
+  options: DashboardServerOptions,
+): http.Server {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (status: number, type: string, body: string) => {
+      res.writeHead(status, { "Content-Type": `${type}; charset=utf-8` });
+      res.end(body);
+      options.logger.debug(`🌐 ${req.method} ${url.pathname} -> ${status}`, {
+        event: "dashboard_request",
+      });
+    };
+
+    if (req.method !== "GET") {
+      send(405, "text/plain", "Method not allowed");
+      return;
+    }
+    if (url.pathname !== "/" && url.pathname !== "/data.json") {
+      send(404, "text/plain", "Not found");
+      return;
+    }
+
+    options.loadData().then(
+      (data) =>
+        url.pathname === "/data.json"
+          ? send(200, "application/json", JSON.stringify(data, null, 2))
+          : send(200, "text/html", renderDashboardHtml(data)),
+      (error) => {
+        options.logger.error(`❌ Dashboard data failed: ${error}`, {
+          event: "dashboard_error",
+        });
+        send(500, "text/plain", `Dashboard data failed: ${error}`);
+      },
+    );
+  });
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const STYLE = `
+body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color: #222; margin: 24px; max-width: 1100px; }
+h1 { margin: 0 0 4px; }
+h2 { margin: 32px 0 8px; }
+h3 { margin: 16px 0 6px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { padding: 6px 8px; border-bottom: 1px solid #e5e5e5; text-align: left; vertical-align: top; }
+th { background: #f5f5f5; }
+.muted { color: #777; font-size: 12px; }
+.nowrap { white-space: nowrap; }
+.badge { display: inline-block; padding: 1px 6px; border-radius: 10px; font-size: 12px; white-space: nowrap; }
+.ok { background: #dcf5e3; color: #17612f; }
+.fallback { background: #fff0d9; color: #8a5300; }
+.retry { background: #fff9cc; color: #6b5d00; }
+.alert { background: #fde2e1; color: #9b1c1c; }
+.other { background: #ececec; color: #444; }
+.test { background: #e6ecff; color: #2b3f8c; }
+.calendar td { width: 14%; height: 64px; }
+.calendar .past { background: #fafafa; color: #aaa; }
+.calendar .closed { background: #f7f7f7; }
+.calendar .today { outline: 2px solid #4a7bd8; outline-offset: -2px; }
+.booking { display: block; margin-top: 4px; padding: 2px 4px; border-radius: 4px; background: #dcf5e3; font-size: 12px; }
+.planned { display: block; margin-top: 4px; font-size: 12px; color: #999; }
+.notice { background: #fde2e1; padding: 8px 10px; border-radius: 4px; }
+`;
+
+/**
+ * Render the full dashboard page
+ */
+export function renderDashboardHtml(data: DashboardData): string {
+  const reservations =
+    data.reservations === null
+      ? `<p class="notice">⚠️ Could not load reservations: ${escapeHtml(data.reservationsError ?? "unknown error")}</p>`
+      : data.courts.map((court) => renderCalendar(court, data)).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Tennis Reservations</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>🎾 Tennis Reservations</h1>
+<p class="muted">Updated ${escapeHtml(formatInstantCR(data.generatedAtMs))} (Costa Rica time). Reload the page to refresh.</p>
+
+<h2>📅 Upcoming Bookings</h2>
+<p class="muted">✅ booked · ❔ configured slot, not booked · ⏳ configured slot, not bookable yet</p>
+${reservations}
+
+<h2>🗂️ Recent Runs</h2>
+${renderRuns(data.runs)}
+
+<h2>🗓️ Weekly Plan</h2>
+${renderWeeklyPlan(data.courts)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Calendar from this week's Monday to the end of the court's booking
+ * horizon (or its furthest booking), one row per week
+ */
+function renderCalendar(court: CourtConfig, data: DashboardData): string {
+  const today = todayCR(data.generatedAtMs);
+  const bookings = (data.reservations ?? []).filter(
+    (r) => r.areaId === court.areaId,
+  );
+  const horizon = addDaysCR(today, court.daysAhead);
+  const lastBooking = bookings.length
+    ? parseDateInCR(bookings[bookings.length - 1].date)
+    : today;
+
+  const start = addDaysCR(today, -WEEKDAYS.indexOf(getDayOfWeek(today)));
+  const end = ymdCR(lastBooking) > ymdCR(horizon) ? lastBooking : horizon;
+
+  const rows: string[] = [];
+  for (let week = start; ymdCR(week) <= ymdCR(end); week = addDaysCR(week, 7)) {
+    const cells = WEEKDAYS.map((_, i) =>
+      renderDay(addDaysCR(week, i), court, bookings, today, horizon),
+    );
+    rows.push(`<tr>${cells.join("")}</tr>`);
+  }
+
+  return `<h3>${escapeHtml(court.name)} <span class="muted">${bookings.length} upcoming, bookable ${court.daysAhead} days ahead</span></h3>
+<table class="calendar">
+<tr>${WEEKDAYS.map((d) => `<th>${d.slice(0, 3)}</th>`).join("")}</tr>
+${rows.join("\n")}
+</table>`;
+}
+
+function renderDay(
+  date: CRDate,
+  court: CourtConfig,
+  bookings: Reservation[],
+  today: CRDate,
+  horizon: CRDate,
+): string {
+  const ymd = ymdCR(date);
+  const classes = [
+    ymd < ymdCR(today) ? "past" : "",
+    ymd > ymdCR(horizon) ? "closed" : "",
+    ymd === ymdCR(today) ? "today" : "",
+  ].filter(Boolean);
+
+  const booked = bookings
+    .filter((r) => r.date === ymd)
+    .map(
+      (r) =>
+        `<span class="booking" title="Reservation ${escapeHtml(r.reservationId)} (${escapeHtml(r.status)})">✅ ${escapeHtml(r.timeSlot)}</span>`,
+    );
+  // The configured slot, when nothing is booked yet on an upcoming day
+  const slot = court.slots[getDayOfWeek(date)];
+  const planned =
+    booked.length === 0 && slot && ymd >= ymdCR(today)
+      ? `<span class="planned">${ymd > ymdCR(horizon) ? "⏳" : "❔"} ${escapeHtml(slot)}</span>`
+      : "";
+
+  const label = date.day === 1 || ymd === ymdCR(today) ? ymd : `${date.day}`;
+  return `<td${classes.length ? ` class="${classes.join(" ")}"` : ""}><span class="muted">${label}</span>${booked.join("")}${planned}</td>`;
+}
+
+function renderRuns(runs: DashboardRun[]): string {
+  if (runs.length === 0) {
+    return `<p class="muted">No runs recorded yet.</p>`;
+  }
+
+  const rows = runs.flatMap((run) =>
+    run.attempts.map(
+      (a, i) => `<tr>
+${i === 0 ? `<td class="nowrap" rowspan="${run.attempts.length}">${escapeHtml(formatInstantCR(Date.parse(run.recordedAt)))}${run.test ? ` <span class="badge test">TEST</span>` : ""}<br><span class="muted">${escapeHtml(run.runId)}</span></td>` : ""}
+<td>${renderBadge(a)}</td>
+<td>${escapeHtml(a.courtName)}${a.preference > 1 ? ` <span class="muted">(preference #${a.preference})</span>` : ""}</td>
+<td class="nowrap">${escapeHtml(a.targetDate)} ${escapeHtml(a.dayOfWeek.slice(0, 3))}<br>${escapeHtml(a.timeSlot)}</td>
+<td class="nowrap">${a.apiCallMs === null ? "-" : `${a.apiCallMs}ms`}${a.burstAttempts && a.burstAttempts > 1 ? `<br><span class="muted">${a.burstAttempts} submissions</span>` : ""}</td>
+<td class="muted">${escapeHtml(a.rawMessage)}</td>
+</tr>`,
+    ),
+  );
+
+  return `<table>
+<tr><th>Run (CR)</th><th>Result</th><th>Court</th><th>Slot</th><th>Latency</th><th>Server message</th></tr>
+${rows.join("\n")}
+</table>`;
+}
+
+/**
+ * MessageType badge, colored by what the result means for the user
+ */
+function renderBadge(record: HistoryRecord): string {
+  const info = getMessageTypeInfo(record.status);
+  const tone =
+    record.status === "SUCCESS"
+      ? "ok"
+      : info.terminal || info.action === "alert"
+        ? "alert"
+        : info.action === "fallback"
+          ? "fallback"
+          : info.retryable
+            ? "retry"
+            : "other";
+  const title = info.suggestion
+    ? ` title="${escapeHtml(info.suggestion)}"`
+    : "";
+  return `<span class="badge ${tone}"${title}>${getStatusIcon(record.status)} ${escapeHtml(String(record.status))}</span>`;
+}
+
+function renderWeeklyPlan(courts: CourtConfig[]): string {
+  const rows = courts.map((court) => {
+    const cells = WEEKDAYS.map((day) => {
+      const slot = court.slots[day];
+      // courts is in COURT_KEYS order
+      const fallbacks = (court.fallbacks?.[day] ?? []).map((f) => {
+        const target = f.court ? courts[COURT_KEYS.indexOf(f.court)] : court;
+        return `${target.name} ${f.time ?? slot ?? ""}`.trim();
+      });
+      return `<td>${slot ? escapeHtml(slot) : `<span class="muted">-</span>`}${
+        fallbacks.length
+          ? `<br><span class="muted">then ${fallbacks.map(escapeHtml).join(", ")}</span>`
+          : ""
+      }</td>`;
+    });
+    return `<tr><th>${escapeHtml(court.name)}<br><span class="muted">${court.daysAhead} days ahead</span></th>${cells.join("")}</tr>`;
+  });
+
+  return `<table>
+<tr><th></th>${WEEKDAYS.map((d) => `<th>${d}</th>`).join("")}</tr>
+${rows.join("\n")}
+</table>`;
+}
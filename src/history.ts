@@ -0,0 +1,175 @@
+/**
+ * Reservation history store
+ *
+ * Every booking attempt of every run is appended as one JSON line to
+ * data/history.jsonl (or the file in HISTORY_FILE). Append-only JSONL keeps
+ * this dependency-free and safe to write from concurrent runs; a partially
+ * written line is skipped on read.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { getDayOfWeek, parseDateInCR, ymdCR } from "./time-cr";
+import type { MessageType } from "./message-classifier";
+import type { MidnightTrigger, ReservationOutcome } from "./types";
+
+/**
+ * Default history file (repo root; this module runs from dist/src/)
+ */
+export const DEFAULT_HISTORY_FILE = path.join(
+  __dirname,
+  "..",
+  "..",
+  "data",
+  "history.jsonl",
+);
+
+/**
+ * One booking attempt (a single candidate slot of a run)
+ */
+export interface HistoryRecord {
+  runId: string;
+  recordedAt: string; // ISO timestamp
+  test: boolean;
+  targetDate: string; // YYYY-MM-DD (Costa Rica)
+  dayOfWeek: string;
+  courtName: string;
+  areaId: string;
+  timeSlot: string;
+  scheduleId: string | null; // null if it could not be resolved
+  preference: number; // 1 = preferred slot, 2+ = fallbacks
+  status: MessageType;
+  rawMessage: string;
+  apiCallMs: number | null;
+  burstAttempts: number | null;
+  t0: string | null; // ISO midnight aimed at (null when not waiting, e.g. --test)
+  fireOffsetMs: number | null;
+  clockOffsetMs: number | null;
+}
+
+export interface HistoryFilter {
+  areaId?: string;
+  dayOfWeek?: string;
+  status?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  includeTest?: boolean;
+}
+
+/**
+ * Resolve which history file to use (HISTORY_FILE env var or the default)
+ */
+export function getHistoryPath(): string {
+  return process.env.HISTORY_FILE
+    ? path.resolve(process.env.HISTORY_FILE)
+    : DEFAULT_HISTORY_FILE;
+}
+
+/**
+ * Short sortable run id, e.g. "20251119T060000-3fa2"
+ */
+export function newRunId(atMs: number = Date.now()): string {
+  const stamp = new Date(atMs)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}Z$/, "");
+  return `${stamp}-${randomBytes(2).toString("hex")}`;
+}
+
+/**
+ * One record per attempted candidate of a run
+ *
+ * @param trigger - The midnight the run fired for (null when it did not wait)
+ */
+export function toHistoryRecords(
+  outcomes: ReservationOutcome[],
+  run: { runId: string; test: boolean; trigger: MidnightTrigger | null },
+): HistoryRecord[] {
+  const recordedAt = new Date().toISOString();
+  const { trigger } = run;
+  return outcomes.map((r) => {
+    const targetDate = parseDateInCR(r.date!);
+    return {
+      runId: run.runId,
+      recordedAt,
+      test: run.test,
+      targetDate: ymdCR(targetDate),
+      dayOfWeek: getDayOfWeek(targetDate),
+      courtName: r.courtName,
+      areaId: r.areaId!,
+      timeSlot: r.time!,
+      scheduleId: r.scheduleId ?? null,
+      preference: r.preference ?? 1,
+      status: r.status,
+      rawMessage: r.rawMessage,
+      apiCallMs: r.apiCallMs ?? null,
+      burstAttempts: r.burstAttempts ?? null,
+      t0: trigger ? new Date(trigger.targetMs).toISOString() : null,
+      fireOffsetMs: trigger ? trigger.fireOffsetMs : null,
+      clockOffsetMs: trigger ? trigger.clockOffsetMs : null,
+    };
+  });
+}
+
+/**
+ * Append records to the history file (creating it if needed)
+ */
+export function appendHistory(
+  records: HistoryRecord[],
+  file: string = getHistoryPath(),
+): void {
+  if (records.length === 0) return;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(
+    file,
+    records.map((r) => JSON.stringify(r)).join("\n") + "\n",
+  );
+}
+
+/**
+ * Read every record from the history file, oldest first
+ *
+ * @returns The records, plus how many unparseable lines were skipped
+ */
+export function readHistory(file: string = getHistoryPath()): {
+  records: HistoryRecord[];
+  skipped: number;
+} {
+  if (!fs.existsSync(file)) {
+    return { records: [], skipped: 0 };
+  }
+
+  const records: HistoryRecord[] = [];
+  let skipped = 0;
+
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as HistoryRecord);
+    } catch {
+      skipped++;
+    }
+  }
+
+  return { records, skipped };
+}
+
+/**
+ * Keep the records matching every given filter field
+ */
+export function filterHistory(
+  records: HistoryRecord[],
+  filter: HistoryFilter,
+): HistoryRecord[] {
+  return records.filter(
+    (r) =>
+      (filter.includeTest || !r.test) &&
+      (!filter.areaId || r.areaId === filter.areaId) &&
+      (!filter.dayOfWeek ||
+        r.dayOfWeek.toLowerCase() === filter.dayOfWeek.toLowerCase()) &&
+      (!filter.status || r.status === filter.status.toUpperCase()) &&
+      (!filter.from || r.targetDate >= filter.from) &&
+      (!filter.to || r.targetDate <= filter.to),
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Keep-alive HTTP transport
+ *
+ * A dedicated http(s).Agent that keeps sockets open between requests, so
+ * the booking requests at midnight can skip DNS, TCP and TLS setup. The
+ * connections are opened ahead of time with warm(), and every request
+ * reports its DNS/connect/TLS/TTFB timings.
+ *
+ * Requests are aborted (AbortController) when they pass their deadline;
+ * failures are rejected as NetworkError / TimeoutError.
+ */
+
+import * as http from "http";
+import * as https from "https";
+import { performance } from "perf_hooks";
+import { NetworkError, TimeoutError } from "./api-errors";
+import type { RequestTiming } from "./types";
+
+export interface HttpResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  startedAtMs: number; // Local epoch ms when the request was started
+  timing: RequestTiming;
+}
+
+// Errors of a socket the server closed while it sat idle in the pool
+const STALE_SOCKET_CODES = ["ECONNRESET", "EPIPE"];
+
+export class KeepAliveTransport {
+  private httpsAgent = new https.Agent({ keepAlive: true, scheduling: "lifo" });
+  private httpAgent = new http.Agent({ keepAlive: true, scheduling: "lifo" });
+
+  /**
+   * Perform a GET request and buffer the response body
+   *
+   * @param timeoutMs - Deadline for the whole request, body included (0 = none)
+   * @param freshSocket - Open a new connection instead of using the pool
+   *   (to re-send after a stale pooled socket)
+   * @throws NetworkError or TimeoutError
+   */
+  get(
+    url: string,
+    timeoutMs: number = 0,
+    freshSocket: boolean = false,
+  ): Promise<HttpResponse> {
+    const target = new URL(url);
+    const isHttps = target.protocol === "https:";
+    const request = isHttps ? https.request : http.request;
+    const pool = isHttps ? this.httpsAgent : this.httpAgent;
+
+    return new Promise((resolve, reject) => {
+      const startedAtMs = Date.now();
+      const start = performance.now();
+      const marks = { dns: 0, connect: 0, tls: 0, ttfb: 0 };
+      let reusedSocket = true;
+      let gotHeaders = false;
+
+      const controller = new AbortController();
+      const deadline =
+        timeoutMs > 0 ? setTimeout(() => controller.abort(), timeoutMs) : null;
+
+      const fail = (error: NodeJS.ErrnoException) => {
+        if (deadline) clearTimeout(deadline);
+        const code = error.code ?? "EUNKNOWN";
+        reject(
+          controller.signal.aborted
+            ? new TimeoutError(timeoutMs, gotHeaders)
+            : new NetworkError(
+                code,
+                error.message,
+                req.reusedSocket &&
+                  !gotHeaders &&
+                  STALE_SOCKET_CODES.includes(code),
+              ),
+        );
+      };
+
+      const req = request(
+        target,
+        {
+          method: "GET",
+          // false: a one-off agent, i.e. a new connection
+          agent: freshSocket ? false : pool,
+          signal: controller.signal,
+        },
+        (res) => {
+          gotHeaders = true;
+          marks.ttfb = performance.now() - start;
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => chunks.push(chunk));
+          res.on("error", fail);
+          res.on("end", () => {
+            if (deadline) clearTimeout(deadline);
+            resolve({
+              status: res.statusCode ?? 0,
+              headers: res.headers,
+              body: Buffer.concat(chunks).toString("utf8"),
+              startedAtMs,
+              timing: {
+                dnsMs: marks.dns,
+                connectMs: marks.connect,
+                tlsMs: marks.tls,
+                ttfbMs: marks.ttfb,
+                totalMs: performance.now() - start,
+                reusedSocket,
+              },
+            });
+          });
+        },
+      );
+
+      req.on("socket", (socket) => {
+        if (!socket.connecting) return; // Reused keep-alive socket
+
+        reusedSocket = false;
+        socket.once("lookup", () => {
+          marks.dns = performance.now() - start;
+        });
+        socket.once("connect", () => {
+          marks.connect = performance.now() - start;
+        });
+        socket.once("secureConnect", () => {
+          marks.tls = performance.now() - start;
+        });
+      });
+      req.on("error", fail);
+      req.end();
+    });
+  }
+
+  /**
+   * Open `connections` sockets in parallel by requesting `url`, leaving them
+   * idle in the keep-alive pool for the next requests
+   *
+   * @returns Timings of the warm-up requests (failed ones are omitted)
+   */
+  async warm(
+    url: string,
+    connections: number,
+    timeoutMs: number = 0,
+  ): Promise<RequestTiming[]> {
+    const results = await Promise.allSettled(
+      Array.from({ length: connections }, () => this.get(url, timeoutMs)),
+    );
+    return results
+      .filter(
+        (r): r is PromiseFulfilledResult<HttpResponse> =>
+          r.status === "fulfilled",
+      )
+      .map((r) => r.value.timing);
+  }
+
+  /**
+   * Close all pooled sockets (lets the process exit promptly)
+   */
+  close() {
+    this.httpsAgent.destroy();
+    this.httpAgent.destroy();
+  }
+}
+
+/**
+ * Format timings for logs and emails
+ * (e.g. "DNS 12ms · connect 40ms · TLS 95ms · TTFB 180ms")
+ */
+export function formatTiming(t: RequestTiming): string {
+  if (t.reusedSocket) {
+    return `TTFB ${t.ttfbMs.toFixed(0)}ms (warm socket)`;
+  }
+  return (
+    `DNS ${t.dnsMs.toFixed(0)}ms · connect ${t.connectMs.toFixed(0)}ms · ` +
+    `TLS ${t.tlsMs.toFixed(0)}ms · TTFB ${t.ttfbMs.toFixed(0)}ms (new socket)`
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * Structured logger
+ *
+ * Writes one JSON object per line to the log file (timestamp, level, run id,
+ * message and optional court/event fields) and a human-readable line to the
+ * console. Writes are synchronous so nothing is lost on process.exit().
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { addDaysCR, todayCR, ymdCR } from "./time-cr";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+export const LOG_LEVELS = Object.keys(LEVEL_ORDER) as LogLevel[];
+
+/**
+ * Extra fields attached to an entry. `court` and `event` are the ones the
+ * console formatter shows; anything else only goes to the file.
+ */
+export interface LogFields {
+  court?: string;
+  event?: string;
+  [key: string]: unknown;
+}
+
+export interface LogEntry extends LogFields {
+  ts: string; // ISO timestamp
+  level: LogLevel;
+  runId: string;
+  msg: string;
+}
+
+export interface LoggerOptions {
+  runId: string;
+  level?: LogLevel;
+  file?: string; // JSON lines destination (omit for console only)
+  // Write to the CR day's file in this directory instead, moving to the next
+  // day's file at midnight (for processes that outlive a day)
+  dailyDir?: string;
+  console?: boolean; // Default true
+}
+
+// Shared by a logger and its children
+interface LoggerSink {
+  runId: string;
+  level: LogLevel;
+  file: string | null;
+  fd: number | null;
+  dailyDir: string | null;
+  console: boolean;
+}
+
+export class Logger {
+  private constructor(
+    private sink: LoggerSink,
+    private context: LogFields,
+  ) {}
+
+  static create(options: LoggerOptions): Logger {
+    const dailyDir = options.dailyDir ?? null;
+    const file = dailyDir ? dailyLogFile(dailyDir) : (options.file ?? null);
+    return new Logger(
+      {
+        runId: options.runId,
+        level: options.level ?? "info",
+        file,
+        fd: file ? openLogFile(file) : null,
+        dailyDir,
+        console: options.console ?? true,
+      },
+      {},
+    );
+  }
+
+  /**
+   * A logger that adds `fields` to every entry (e.g. { court: "Court 1" })
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.sink, { ...this.context, ...fields });
+  }
+
+  setLevel(level: LogLevel): void {
+    this.sink.level = level;
+  }
+
+  /**
+   * The file entries currently go to (null for console only)
+   */
+  currentFile(): string | null {
+    this.rotate();
+    return this.sink.file;
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write("error", msg, fields);
+  }
+
+  close(): void {
+    if (this.sink.fd !== null) {
+      fs.closeSync(this.sink.fd);
+      this.sink.fd = null;
+    }
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.sink.level]) return;
+
+    const entry: LogEntry = {
+      ts: new Date().toISOString(),
+      level,
+      runId: this.sink.runId,
+      msg,
+      ...this.context,
+      ...fields,
+    };
+
+    if (this.sink.console) {
+      const line = formatLogEntry(entry);
+      (level === "error" ? console.error : console.log)(line);
+    }
+    this.rotate();
+    if (this.sink.fd !== null) {
+      fs.writeSync(this.sink.fd, JSON.stringify(entry) + "\n");
+    }
+  }
+
+  // Children share the sink, so they move to the new day's file too
+  private rotate(): void {
+    if (this.sink.dailyDir === null || this.sink.fd === null) return;
+    const file = dailyLogFile(this.sink.dailyDir);
+    if (file === this.sink.file) return;
+    fs.closeSync(this.sink.fd);
+    this.sink.file = file;
+    this.sink.fd = openLogFile(file);
+  }
+}
+
+function openLogFile(file: string): number {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return fs.openSync(file, "a");
+}
+
+/**
+ * Human-readable rendering of an entry for the console:
+ * [2025-11-19T06:00:00.012Z] [INFO] (Court 1) ✅ Reservation confirmed
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  const court = entry.court ? `(${entry.court}) ` : "";
+  return `[${entry.ts}] [${entry.level.toUpperCase()}] ${court}${entry.msg}`;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(LEVEL_ORDER, value)
+  );
+}
+
+/**
+ * Daily log file name, dated in Costa Rica time like everything else
+ */
+export function dailyLogFile(dir: string, atMs: number = Date.now()): string {
+  return path.join(dir, `reservation-${ymdCR(todayCR(atMs))}.log`);
+}
+
+/**
+ * Delete daily log files older than `retentionDays` (0 = keep everything)
+ *
+ * @returns The files that were deleted
+ */
+export function pruneLogs(
+  dir: string,
+  retentionDays: number,
+  atMs: number = Date.now(),
+): string[] {
+  if (retentionDays <= 0 || !fs.existsSync(dir)) return [];
+
+  const cutoff = ymdCR(addDaysCR(todayCR(atMs), -retentionDays));
+  const deleted: string[] = [];
+
+  for (const name of fs.readdirSync(dir)) {
+    const match = name.match(/^reservation-(\d{4}-\d{2}-\d{2})\.log$/);
+    if (match && match[1] < cutoff) {
+      fs.unlinkSync(path.join(dir, name));
+      deleted.push(name);
+    }
+  }
+
+  return deleted;
+}
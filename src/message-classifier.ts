@@ -10,15 +10,152 @@ export type MessageType =
   | "SLOT_TAKEN"
   | "RESERVATION_LIMIT"
   | "NOT_YET_AVAILABLE"
+  | "CANCELLED"
+  | "CANCEL_FAILED"
+  | "INVALID_CREDENTIALS"
+  | "MAINTENANCE"
+  | "OUTSIDE_HOURS"
+  | "SUSPENDED_DUES"
+  | "TRANSPORT_ERROR" // No usable response (network, timeout, HTTP error)
   | "UNKNOWN";
 
-export interface ClassifiedMessage {
+/**
+ * What the caller should do next:
+ * - none: nothing to do (booked / cancelled)
+ * - retry: the same request may still succeed if repeated shortly
+ * - fallback: this slot is lost, try the next candidate
+ * - stop: nothing else this run can change the outcome
+ * - alert: a person needs to act (credentials, dues, unknown response)
+ */
+export type SuggestedAction = "none" | "retry" | "fallback" | "stop" | "alert";
+
+/**
+ * `verified` is false for types whose patterns were written from expected
+ * wording only (no captured server response, see message-corpus.ts). Those
+ * are never terminal and never stop a burst: a false match must not end a
+ * run the way a real invalid-credentials or dues message would.
+ */
+export interface MessageTypeInfo {
+  retryable: boolean; // Repeating the same request may change the result
+  terminal: boolean; // No other request this run can change the result
+  action: SuggestedAction;
+  suggestion: string; // Human-readable next step, shown in emails
+  verified: boolean; // Patterns checked against captured server responses
+}
+
+export interface ClassifiedMessage extends MessageTypeInfo {
   type: MessageType;
   friendlyMessage: string;
   rawMessage: string;
   days?: string;
 }
 
+const MESSAGE_TYPE_INFO: Record<MessageType, MessageTypeInfo> = {
+  SUCCESS: {
+    retryable: false,
+    terminal: true,
+    action: "none",
+    suggestion: "",
+    verified: true,
+  },
+  SLOT_TAKEN: {
+    retryable: false,
+    terminal: false,
+    action: "fallback",
+    suggestion: "Try a fallback slot, or watch for a cancellation",
+    verified: true,
+  },
+  RESERVATION_LIMIT: {
+    retryable: false,
+    terminal: true,
+    action: "stop",
+    suggestion: "Cancel an existing reservation to free up the quota",
+    verified: true,
+  },
+  NOT_YET_AVAILABLE: {
+    retryable: true,
+    terminal: false,
+    action: "retry",
+    suggestion:
+      "Retry shortly; if it persists, check daysAhead and the fire offset",
+    verified: true,
+  },
+  // Unverified from here on (not captured from the real server): retried and
+  // never terminal, like UNKNOWN
+  CANCELLED: {
+    retryable: false,
+    terminal: false,
+    action: "none",
+    suggestion: "Confirm it is gone with `npm run list`",
+    verified: false,
+  },
+  CANCEL_FAILED: {
+    retryable: false,
+    terminal: false,
+    action: "alert",
+    suggestion: "Cancel it from the mobile app or contact the administration",
+    verified: false,
+  },
+  INVALID_CREDENTIALS: {
+    retryable: true,
+    terminal: false,
+    action: "alert",
+    suggestion:
+      "Check TENNIS_USERNAME / TENNIS_PASSWORD (unverified wording: check the raw message)",
+    verified: false,
+  },
+  MAINTENANCE: {
+    retryable: false,
+    terminal: false,
+    action: "fallback",
+    suggestion: "The court is closed; try the other court",
+    verified: false,
+  },
+  OUTSIDE_HOURS: {
+    retryable: true,
+    terminal: false,
+    action: "retry",
+    suggestion:
+      "Retry once the booking hours open; check the clock calibration and fire offset",
+    verified: false,
+  },
+  SUSPENDED_DUES: {
+    retryable: true,
+    terminal: false,
+    action: "alert",
+    suggestion:
+      "Pay the pending condominium dues to re-enable reservations (unverified wording: check the raw message)",
+    verified: false,
+  },
+  TRANSPORT_ERROR: {
+    retryable: true,
+    terminal: false,
+    action: "alert",
+    suggestion:
+      "The booking may still have gone through; check with `npm run list`",
+    verified: true,
+  },
+  UNKNOWN: {
+    retryable: true,
+    terminal: false,
+    action: "alert",
+    suggestion: "Check the raw server message and the logs",
+    verified: true,
+  },
+};
+
+/**
+ * Retryability and suggested action for a message type
+ *
+ * A type this version does not know (e.g. a hand-edited or newer history
+ * record) gets UNKNOWN's info.
+ */
+export function getMessageTypeInfo(type: MessageType): MessageTypeInfo {
+  return Object.prototype.hasOwnProperty.call(MESSAGE_TYPE_INFO, type)
+    ? MESSAGE_TYPE_INFO[type]
+    : MESSAGE_TYPE_INFO.UNKNOWN;
+}
+
 /**
  * Classify a Spanish response message into a friendly error type
  *
@@ -26,6 +163,13 @@ export interface ClassifiedMessage {
  * @returns Classified message with friendly English description
  */
 export function classifyMessage(message: string): ClassifiedMessage {
+  const result = matchMessage(message);
+  return { ...result, ...MESSAGE_TYPE_INFO[result.type] };
+}
+
+function matchMessage(
+  message: string,
+): Omit<ClassifiedMessage, keyof MessageTypeInfo> {
   if (!message) {
     return {
       type: "UNKNOWN",
@@ -41,6 +185,42 @@ export function classifyMessage(message: string): ClassifiedMessage {
     .replace(/[\u0300-\u036f]/g, "") // Remove diacritics (é→e, á→a, etc.)
     .replace(/\s+/g, " ");
 
+  // Pattern 0a: Cancellation successful (checked before Pattern 1, since the
+  // server reuses the "se ha realizado con éxito" wording)
+  // Examples:
+  //  - "Su reservación ha sido cancelada con éxito."
+  //  - "La cancelación se ha realizado con éxito."
+  //  - "La reservación ha sido eliminada correctamente."
+  if (
+    /(ha\s+sido\s+(cancelada|eliminada)|cancelacion\s+se\s+ha\s+realizado|se\s+ha\s+(cancelado|eliminado))/.test(
+      msg,
+    ) &&
+    !/no\s+(es\s+posible|se\s+puede|puede)/.test(msg)
+  ) {
+    return {
+      type: "CANCELLED",
+      friendlyMessage: "Reservation cancelled",
+      rawMessage: message,
+    };
+  }
+
+  // Pattern 0b: Cancellation refused
+  // Examples:
+  //  - "No es posible cancelar la reservación, el tiempo permitido para cancelar ha expirado."
+  //  - "La reservación no puede ser eliminada."
+  //  - "No se encontró la reservación."
+  if (
+    /no\s+(es\s+posible|se\s+puede)\s+(cancelar|eliminar)/.test(msg) ||
+    /no\s+puede\s+ser\s+(cancelada|eliminada)/.test(msg) ||
+    /no\s+se\s+encontro\s+la\s+reservacion/.test(msg)
+  ) {
+    return {
+      type: "CANCEL_FAILED",
+      friendlyMessage: "Cancellation refused by the server",
+      rawMessage: message,
+    };
+  }
+
   // Pattern 1: Success
   // Example: "Su reservación se ha realizado con éxito y ya se encuentra aprobada."
   if (/se\s+ha\s+realizado.*exito/.test(msg)) {
@@ -51,6 +231,86 @@ export function classifyMessage(message: string): ClassifiedMessage {
     };
   }
 
+  // Pattern 1a: Account suspended for unpaid dues (checked before
+  // maintenance: "cuota de mantenimiento" is a dues message)
+  // Examples:
+  //  - "Su cuenta se encuentra morosa, no es posible realizar reservaciones."
+  //  - "Las reservaciones están suspendidas por cuotas de mantenimiento pendientes de pago."
+  if (
+    /(moros[oa]|morosidad)/.test(msg) ||
+    /(cuotas?|saldos?|pagos?)\s+(de\s+mantenimiento\s+)?(pendientes?|atrasad[oa]s?|vencid[oa]s?)/.test(
+      msg,
+    ) ||
+    /(pendientes?\s+de\s+pago|al\s+dia\s+(con|en)\s+(sus\s+|los\s+)?pagos)/.test(
+      msg,
+    )
+  ) {
+    return {
+      type: "SUSPENDED_DUES",
+      friendlyMessage: "Reservations suspended - unpaid condominium dues",
+      rawMessage: message,
+    };
+  }
+
+  // Pattern 1b: Invalid credentials / session
+  // Examples:
+  //  - "Usuario o contraseña incorrectos."
+  //  - "Credenciales inválidas."
+  //  - "Acceso denegado."
+  if (
+    /(usuario|contrasena|clave)\s.*(incorrect|invalid|no\s+(es\s+)?valid)/.test(
+      msg,
+    ) ||
+    /credenciales\s+(incorrectas|invalidas|no\s+validas)/.test(msg) ||
+    /acceso\s+denegado/.test(msg) ||
+    /sesion\s+(ha\s+)?(expirad|caducad)/.test(msg)
+  ) {
+    return {
+      type: "INVALID_CREDENTIALS",
+      friendlyMessage: "Login rejected - invalid username or password",
+      rawMessage: message,
+    };
+  }
+
+  // Pattern 1c: Area closed (maintenance / repairs)
+  // Examples:
+  //  - "El área se encuentra cerrada por mantenimiento."
+  //  - "Cancha fuera de servicio por reparaciones."
+  //  - "Esta área se encuentra deshabilitada temporalmente."
+  if (
+    /(por|en)\s+(mantenimiento|reparacion(es)?|remodelacion)/.test(msg) ||
+    /fuera\s+de\s+servicio/.test(msg) ||
+    /area\s+(se\s+encuentra\s+|esta\s+)?(cerrada|deshabilitada|inhabilitada)/.test(
+      msg,
+    )
+  ) {
+    return {
+      type: "MAINTENANCE",
+      friendlyMessage: "Court closed for maintenance",
+      rawMessage: message,
+    };
+  }
+
+  // Pattern 1d: Outside the hours reservations are accepted
+  // Examples:
+  //  - "No es posible realizar reservaciones fuera del horario permitido."
+  //  - "Las reservaciones solo pueden realizarse entre las 12:00 AM y las 10:00 PM."
+  if (
+    /fuera\s+del?\s+horario/.test(msg) ||
+    /reservaciones\s+solo\s+(se\s+)?pueden\s+(realizar|hacer)(se)?\s+(entre|de|desde)/.test(
+      msg,
+    ) ||
+    /solo\s+se\s+pueden\s+(realizar|hacer)\s+reservaciones\s+(entre|de|desde)/.test(
+      msg,
+    )
+  ) {
+    return {
+      type: "OUTSIDE_HOURS",
+      friendlyMessage: "Outside the hours reservations are accepted",
+      rawMessage: message,
+    };
+  }
+
   // Pattern 2: Date not available yet (too far ahead)
   // Examples:
   //  - "Esta fecha aún no está disponible para reservación. Las reservaciones serán habilitadas 8 días antes."
@@ -119,7 +379,22 @@ export function getStatusIcon(type: MessageType): string {
       return "🚫";
     case "NOT_YET_AVAILABLE":
       return "📅";
+    case "CANCELLED":
+      return "🗑️";
+    case "CANCEL_FAILED":
+      return "⛔";
+    case "INVALID_CREDENTIALS":
+      return "🔑";
+    case "MAINTENANCE":
+      return "🚧";
+    case "OUTSIDE_HOURS":
+      return "🕐";
+    case "SUSPENDED_DUES":
+      return "💳";
+    case "TRANSPORT_ERROR":
+      return "📡";
     case "UNKNOWN":
+    default:
       return "❓";
   }
 }
@@ -0,0 +1,191 @@
+/**
+ * Corpus of SAS server responses and their expected classification
+ *
+ * `production` messages were returned by the real server, verbatim (from
+ * api-endpoints-discovered.md and the examples in message-classifier.ts);
+ * `expected` ones are wording we have not seen in our logs yet, written to
+ * match the patterns. CANCELLED, CANCEL_FAILED,
+ * INVALID_CREDENTIALS, MAINTENANCE, OUTSIDE_HOURS and SUSPENDED_DUES have no
+ * production entry at all, so their types are unverified (see
+ * MessageTypeInfo.verified). When a new response shows up, add it here as
+ * `production` and run `npm test` (or `npm run classify -- --check`).
+ */
+
+import type { MessageType } from "./message-classifier";
+
+export interface CorpusEntry {
+  message: string;
+  type: MessageType;
+  source: "production" | "expected";
+}
+
+export const MESSAGE_CORPUS: CorpusEntry[] = [
+  // SUCCESS
+  {
+    message:
+      "Su reservación se ha realizado con éxito y ya se encuentra aprobada.",
+    type: "SUCCESS",
+    source: "production",
+  },
+  {
+    message: "Su reservación se ha realizado con éxito.",
+    type: "SUCCESS",
+    source: "expected",
+  },
+
+  // SLOT_TAKEN
+  {
+    // Captured failure response in api-endpoints-discovered.md
+    message:
+      "Esta fecha ya existen otras reservaciones que excede la cantidad máxima permitida.",
+    type: "SLOT_TAKEN",
+    source: "production",
+  },
+  {
+    // Full form of the ellipsized example in message-classifier.ts
+    message:
+      "Su reservación excede la cantidad máxima de reservaciones permitidas para este horario, ya existen otras reservaciones.",
+    type: "SLOT_TAKEN",
+    source: "expected",
+  },
+  {
+    message: "Ya existen otras reservaciones para el horario seleccionado.",
+    type: "SLOT_TAKEN",
+    source: "expected",
+  },
+
+  // RESERVATION_LIMIT
+  {
+    message:
+      "No es posible ingresar la reservación, usted ya há sobrepasado el limite permitido",
+    type: "RESERVATION_LIMIT",
+    source: "production",
+  },
+  {
+    message:
+      "No es posible ingresar la reservación, usted ya ha sobrepasado el límite permitido de reservaciones.",
+    type: "RESERVATION_LIMIT",
+    source: "expected",
+  },
+
+  // NOT_YET_AVAILABLE
+  {
+    message:
+      "Esta fecha aún no está disponible para reservación. Las reservaciones serán habilitadas 8 días antes.",
+    type: "NOT_YET_AVAILABLE",
+    source: "production",
+  },
+  {
+    message: "Esta fecha aun no esta disponible para reservacion.",
+    type: "NOT_YET_AVAILABLE",
+    source: "production",
+  },
+  {
+    message: "Fecha no se encuentra habilitada para reservación",
+    type: "NOT_YET_AVAILABLE",
+    source: "production",
+  },
+
+  // CANCELLED / CANCEL_FAILED
+  {
+    message: "Su reservación ha sido cancelada con éxito.",
+    type: "CANCELLED",
+    source: "expected",
+  },
+  {
+    message: "La reservación ha sido eliminada correctamente.",
+    type: "CANCELLED",
+    source: "expected",
+  },
+  {
+    message:
+      "No es posible cancelar la reservación, el tiempo permitido para cancelar ha expirado.",
+    type: "CANCEL_FAILED",
+    source: "expected",
+  },
+  {
+    message: "No se encontró la reservación.",
+    type: "CANCEL_FAILED",
+    source: "expected",
+  },
+
+  // INVALID_CREDENTIALS
+  {
+    message: "Usuario o contraseña incorrectos.",
+    type: "INVALID_CREDENTIALS",
+    source: "expected",
+  },
+  {
+    message: "Credenciales inválidas, por favor intente de nuevo.",
+    type: "INVALID_CREDENTIALS",
+    source: "expected",
+  },
+  {
+    message: "Acceso denegado.",
+    type: "INVALID_CREDENTIALS",
+    source: "expected",
+  },
+  {
+    message: "Su sesión ha expirado, ingrese nuevamente.",
+    type: "INVALID_CREDENTIALS",
+    source: "expected",
+  },
+
+  // MAINTENANCE
+  {
+    message: "El área se encuentra cerrada por mantenimiento.",
+    type: "MAINTENANCE",
+    source: "expected",
+  },
+  {
+    message: "Cancha fuera de servicio por reparaciones.",
+    type: "MAINTENANCE",
+    source: "expected",
+  },
+  {
+    message: "Esta área se encuentra deshabilitada temporalmente.",
+    type: "MAINTENANCE",
+    source: "expected",
+  },
+
+  // OUTSIDE_HOURS
+  {
+    message:
+      "No es posible realizar reservaciones fuera del horario permitido.",
+    type: "OUTSIDE_HOURS",
+    source: "expected",
+  },
+  {
+    message:
+      "Las reservaciones solo pueden realizarse entre las 12:00 AM y las 10:00 PM.",
+    type: "OUTSIDE_HOURS",
+    source: "expected",
+  },
+
+  // SUSPENDED_DUES
+  {
+    message:
+      "Su cuenta se encuentra morosa, no es posible realizar reservaciones.",
+    type: "SUSPENDED_DUES",
+    source: "expected",
+  },
+  {
+    message:
+      "Las reservaciones están suspendidas por cuotas de mantenimiento pendientes de pago.",
+    type: "SUSPENDED_DUES",
+    source: "expected",
+  },
+  {
+    message:
+      "Para realizar reservaciones debe encontrarse al día con sus pagos.",
+    type: "SUSPENDED_DUES",
+    source: "expected",
+  },
+
+  // UNKNOWN
+  {
+    message: "Error inesperado, intente más tarde.",
+    type: "UNKNOWN",
+    source: "expected",
+  },
+];
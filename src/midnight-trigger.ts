@@ -0,0 +1,82 @@
+/**
+ * High-precision trigger
+ *
+ * Sleeps coarsely with setTimeout until shortly before the target instant,
+ * then spins on performance.now() (monotonic) for the last stretch, so the
+ * booking requests go out within ~1ms of the intended time instead of up to
+ * a second late.
+ */
+
+import { performance } from "perf_hooks";
+
+export interface TriggerOptions {
+  // Fire this many ms relative to the target (negative = early)
+  fireOffsetMs?: number;
+  // Busy-wait for this long before firing (the rest is setTimeout sleeps)
+  spinWindowMs?: number;
+  // Remaining times (ms before firing) at which onCheckpoint is called
+  checkpointsMs?: number[];
+  onCheckpoint?: (remainingMs: number) => void;
+}
+
+export interface TriggerResult {
+  targetMs: number; // Epoch ms of the target (e.g. midnight), before offset
+  fireOffsetMs: number;
+  firedAtMs: number; // Epoch ms at which the trigger actually fired
+  driftMs: number; // firedAt - (target + offset); positive = late
+}
+
+const DEFAULT_SPIN_WINDOW_MS = 200;
+const DEFAULT_CHECKPOINTS_MS = [5 * 60_000, 60_000, 10_000, 1_000];
+
+/**
+ * Wait until targetMs + fireOffsetMs (epoch ms) and report how accurately
+ * the trigger fired. Resolves immediately if the fire time has passed.
+ */
+export async function waitUntilInstant(
+  targetMs: number,
+  options: TriggerOptions = {},
+): Promise<TriggerResult> {
+  const fireOffsetMs = options.fireOffsetMs ?? 0;
+  const spinWindowMs = options.spinWindowMs ?? DEFAULT_SPIN_WINDOW_MS;
+  const pending = [...(options.checkpointsMs ?? DEFAULT_CHECKPOINTS_MS)].sort(
+    (a, b) => b - a,
+  );
+  const fireAtMs = targetMs + fireOffsetMs;
+
+  // Coarse phase: re-read the wall clock after every sleep, so clock
+  // adjustments during a long wait are picked up
+  let remaining = fireAtMs - Date.now();
+  while (remaining > spinWindowMs) {
+    while (pending.length > 0 && pending[0] >= remaining) {
+      pending.shift();
+    }
+
+    const nextCheckpoint = pending[0] ?? 0;
+    const sleepMs = Math.max(
+      Math.min(remaining - spinWindowMs, remaining - nextCheckpoint),
+      1,
+    );
+    await new Promise((resolve) => setTimeout(resolve, sleepMs));
+
+    remaining = fireAtMs - Date.now();
+    if (pending.length > 0 && remaining <= pending[0]) {
+      options.onCheckpoint?.(Math.max(remaining, 0));
+      pending.shift();
+    }
+  }
+
+  // Fine phase: map the fire time onto the monotonic clock and spin
+  const perfFireAt = performance.now() + (fireAtMs - Date.now());
+  while (performance.now() < perfFireAt) {
+    // busy-wait
+  }
+
+  const driftMs = performance.now() - perfFireAt;
+  return {
+    targetMs,
+    fireOffsetMs,
+    firedAtMs: fireAtMs + driftMs,
+    driftMs,
+  };
+}
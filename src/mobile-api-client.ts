@@ -6,6 +6,41 @@
  */
 
 import crypto from "crypto";
+import { KeepAliveTransport, type HttpResponse } from "./http-transport";
+import {
+  ApiError,
+  HttpStatusError,
+  MalformedResponseError,
+  NetworkError,
+  UnexpectedPayloadError,
+} from "./api-errors";
+import { getDayOfWeek, parseDateInCR } from "./time-cr";
+import { Logger } from "./logger";
+import { newRunId } from "./history";
+import type { ApiConfig, RequestTiming } from "./types";
+
+const CONDO_ID = "16"; // Parques del Sol
+
+export const DEFAULT_BASE_URL = "https://www.sasweb.net/utilities/process/app";
+
+/**
+ * Resolve the API base URL: SAS_BASE_URL (e.g. the local mock server at
+ * http://localhost:8787) or the real SAS endpoint
+ */
+export function getApiBaseUrl(): string {
+  return process.env.SAS_BASE_URL || DEFAULT_BASE_URL;
+}
+
+/**
+ * Request deadlines and retries when no config is given (config.json "api")
+ */
+export const DEFAULT_API_CONFIG: ApiConfig = {
+  timeoutMs: 10000,
+  bookingTimeoutMs: 5000,
+  retries: 2,
+  retryBaseDelayMs: 500,
+  bookingRetries: 1,
+};
 
 export interface ReservationParams {
   area: "5" | "7"; // 5 = Court 1, 7 = Court 2
@@ -17,19 +52,88 @@ export interface ReservationResult {
   success: boolean;
   message: string;
   rawResponse: any;
+  timing?: RequestTiming;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  condoId: string;
+  condoName: string;
+  message: string; // Why validation failed (empty when valid)
+  rawResponse: any;
+}
+
+/**
+ * One server clock sample: local send/receive times and the server's HTTP
+ * Date header (1-second resolution, truncated)
+ */
+export interface ClockProbe {
+  sentAtMs: number; // Local epoch ms when the request was sent
+  receivedAtMs: number; // Local epoch ms when the response headers arrived
+  serverDateMs: number; // Server Date header as epoch ms
+}
+
+/**
+ * An existing reservation, as returned by functionality.php?fn=reservations
+ * (server field names in RESERVATION_FIELDS)
+ */
+export interface Reservation {
+  reservationId: string;
+  areaId: string; // 5 = Court 1, 7 = Court 2 (other areas are returned too)
+  courtName: string;
+  date: string; // Format: YYYY-MM-DD
+  scheduleId: string;
+  timeSlot: string; // Format: "06:00 AM - 07:00 AM"
+  status: string; // As reported by the server (e.g., "Aprobada")
+}
+
+/**
+ * One bookable slot from functionality.php?fn=reservations_form
+ */
+export interface ScheduleEntry {
+  areaId: string;
+  dayOfWeek: string; // "Monday" ... "Sunday"
+  timeSlot: string; // Format: "06:00 AM - 07:00 AM"
+  scheduleId: string;
+}
+
+/**
+ * What the server exposes about one area's day. Other members' bookings are
+ * not part of it: no captured response shows where (or whether) the API
+ * returns them.
+ */
+export interface DayAvailability {
+  areaId: string;
+  date: string; // Format: YYYY-MM-DD
+  schedules: ScheduleEntry[]; // The area's slots on that weekday
+  scheduleError: string | null; // Why schedules is empty (form not understood)
+  ownReservations: Reservation[]; // This account's reservations that day
 }
 
 export class MobileAPIClient {
   private username: string;
   private passwordHash: string;
-  private baseUrl = "https://www.sasweb.net/utilities/process/app/poster.php";
+  readonly baseUrl: string;
+  private api: ApiConfig;
+  private logger: Logger;
+  private transport = new KeepAliveTransport();
 
+  /**
+   * @param logger - Where requests, retries and failures are logged (default:
+   *   console only, at info level, so per-request debug lines are hidden)
+   */
   constructor(
     username: string,
     password: string,
     isPreHashed: boolean = false,
+    baseUrl: string = getApiBaseUrl(),
+    api: ApiConfig = DEFAULT_API_CONFIG,
+    logger: Logger = Logger.create({ runId: newRunId() }),
   ) {
     this.username = username;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.api = api;
+    this.logger = logger;
     // MD5 hash the password (matches mobile app implementation)
     // If already hashed (32 char hex string), use directly
     if (
@@ -45,6 +149,74 @@ export class MobileAPIClient {
     }
   }
 
+  /**
+   * Validate credentials against validation.php (no side effects)
+   *
+   * Used as a preflight check before the midnight wait, so a wrong password
+   * or an unreachable API is noticed while there is still time to fix it.
+   */
+  async validate(): Promise<ValidationResult> {
+    const url = this.buildUrl("validation.php", {
+      callback: "validation_callback",
+    });
+
+    this.logger.debug("🌐 API call: validation", { event: "api_call" });
+
+    return this.call(url, "read", (response) =>
+      this.parseValidationResponse(response.body),
+    );
+  }
+
+  /**
+   * Sample the server clock with a lightweight validation.php request
+   *
+   * Times are measured on the monotonic clock and anchored to Date.now() at
+   * send time, so the round trip is accurate to well under a millisecond.
+   */
+  async probeServerClock(): Promise<ClockProbe> {
+    const url = this.buildUrl("validation.php", {
+      callback: "validation_callback",
+    });
+
+    return this.call(url, "read", (response) => {
+      const dateHeader = response.headers.date;
+      const serverDateMs = dateHeader ? Date.parse(dateHeader) : NaN;
+      if (Number.isNaN(serverDateMs)) {
+        throw new UnexpectedPayloadError(
+          `missing or invalid Date header: ${dateHeader}`,
+        );
+      }
+
+      return {
+        sentAtMs: response.startedAtMs,
+        receivedAtMs: response.startedAtMs + response.timing.ttfbMs,
+        serverDateMs,
+      };
+    });
+  }
+
+  /**
+   * Open keep-alive connections ahead of the booking requests
+   *
+   * Call a few seconds before T0 (servers close idle sockets after a few
+   * seconds), with one connection per request that will be in flight at once.
+   *
+   * @returns Timings of the warm-up requests
+   */
+  async warmUp(connections: number): Promise<RequestTiming[]> {
+    const url = this.buildUrl("validation.php", {
+      callback: "validation_callback",
+    });
+    return this.transport.warm(url, connections, this.api.timeoutMs);
+  }
+
+  /**
+   * Close pooled keep-alive connections
+   */
+  close() {
+    this.transport.close();
+  }
+
   /**
    * Create a tennis court reservation
    */
@@ -53,30 +225,256 @@ export class MobileAPIClient {
   ): Promise<ReservationResult> {
     const url = this.buildReservationUrl(params);
 
-    console.log(
-      `[API] Calling: area=${params.area}, day=${params.day}, schedule=${params.schedule}`,
+    this.logger.debug(
+      `🌐 API call: area=${params.area}, day=${params.day}, schedule=${params.schedule}`,
+      { event: "api_call" },
     );
 
-    try {
-      const response = await fetch(url);
-      const text = await response.text();
+    return this.call(url, "write", (response) => ({
+      ...this.parseJSONPResponse(response.body),
+      timing: response.timing,
+    }));
+  }
+
+  /**
+   * Cancel (delete) an existing reservation by its reservation ID
+   *
+   * UNVERIFIED: the cancel request has not been captured from the mobile
+   * app. app_action=delete_reservation and the eid parameter are modelled on
+   * add_reservation and reservations_form (see api-endpoints-discovered.md),
+   * and the mock server only mirrors that guess. Callers must check the
+   * reservation list afterwards instead of trusting the response alone.
+   */
+  async cancelReservation(reservationId: string): Promise<ReservationResult> {
+    const url = this.buildPosterUrl("delete_reservation", {
+      eid: reservationId,
+    });
+
+    this.logger.debug(`🌐 API call: delete_reservation, id=${reservationId}`, {
+      event: "api_call",
+    });
+
+    return this.call(url, "write", (response) =>
+      this.parseJSONPResponse(response.body),
+    );
+  }
 
-      return this.parseJSONPResponse(text);
+  /**
+   * List all reservations held by this user (past and upcoming)
+   *
+   * @throws UnexpectedPayloadError if the items lack the expected fields
+   *   (RESERVATION_FIELDS are not yet confirmed against a captured response)
+   */
+  async listReservations(): Promise<Reservation[]> {
+    this.logger.debug("🌐 API call: fn=reservations", { event: "api_call" });
+
+    return this.call(this.buildReservationsUrl(), "read", (response) =>
+      this.parseReservationsResponse(response.body),
+    );
+  }
+
+  /**
+   * The unparsed fn=reservations response, for recording the real payload
+   * (npm run list -- --raw)
+   */
+  async fetchRawReservations(): Promise<string> {
+    this.logger.debug("🌐 API call: fn=reservations (raw)", {
+      event: "api_call",
+    });
+
+    return this.call(
+      this.buildReservationsUrl(),
+      "read",
+      (response) => response.body,
+    );
+  }
+
+  /**
+   * Fetch every area/day/slot -> schedule ID mapping from the reservation form
+   *
+   * This is the same (large, ~375 KB) payload the mobile app loads when the
+   * user opens "new reservation"; the app filters it client-side.
+   */
+  async fetchScheduleEntries(): Promise<ScheduleEntry[]> {
+    this.logger.debug("🌐 API call: fn=reservations_form", {
+      event: "api_call",
+    });
+
+    return this.call(this.buildFormUrl(), "read", (response) =>
+      this.parseReservationFormResponse(response.body),
+    );
+  }
+
+  /**
+   * The unparsed reservations_form response, for recording the real payload
+   * (npm run sync-schedules -- --raw)
+   */
+  async fetchRawScheduleForm(): Promise<string> {
+    this.logger.debug("🌐 API call: fn=reservations_form (raw)", {
+      event: "api_call",
+    });
+
+    return this.call(this.buildFormUrl(), "read", (response) => response.body);
+  }
+
+  /**
+   * Get the slots of an area on a date from the reservation form, plus this
+   * account's own reservations that day
+   *
+   * A reservation form that does not parse (its shape is unverified) leaves
+   * `schedules` empty with `scheduleError` set, so callers can still work
+   * from the local schedule mapping.
+   */
+  async getAvailability(
+    area: "5" | "7",
+    date: string,
+  ): Promise<DayAvailability> {
+    this.logger.debug(`🌐 API call: fn=reservations_form, area=${area}`, {
+      event: "api_call",
+    });
+
+    const day = normalizeDate(date);
+    const dayOfWeek = getDayOfWeek(parseDateInCR(day));
+    let entries: ScheduleEntry[] = [];
+    let scheduleError: string | null = null;
+    try {
+      entries = await this.call(this.buildFormUrl(), "read", (response) =>
+        this.parseReservationFormResponse(response.body),
+      );
     } catch (error) {
-      console.error("[API] Request failed:", error);
-      throw new Error(`API request failed: ${error}`);
+      if (
+        !(error instanceof UnexpectedPayloadError) &&
+        !(error instanceof MalformedResponseError)
+      ) {
+        throw error;
+      }
+      scheduleError = error.message;
     }
+    const reservations = await this.listReservations();
+
+    return {
+      areaId: area,
+      date: day,
+      schedules: entries.filter(
+        (e) => e.areaId === area && e.dayOfWeek === dayOfWeek,
+      ),
+      scheduleError,
+      ownReservations: reservations.filter(
+        (r) => r.areaId === area && r.date === day,
+      ),
+    };
   }
 
   /**
-   * Build the full API URL with all parameters
+   * Perform a GET request on the keep-alive transport and parse the response
+   *
+   * Reads are re-sent after any retryable failure, with exponential backoff.
+   * Writes (book / cancel) are re-sent immediately, and only if the request
+   * never reached the server: a timed-out submission may have booked the
+   * slot, and the burst in reserve.ts already covers lost races. A request
+   * lost on a stale keep-alive socket is re-sent on a new connection (the
+   * other pooled sockets may be just as stale).
+   *
+   * @throws ApiError describing the last failure
    */
-  private buildReservationUrl(params: ReservationParams): string {
+  private async call<T>(
+    url: string,
+    kind: "read" | "write",
+    parse: (response: HttpResponse) => T,
+  ): Promise<T> {
+    const isWrite = kind === "write";
+    const retries = isWrite ? this.api.bookingRetries : this.api.retries;
+    const timeoutMs = isWrite ? this.api.bookingTimeoutMs : this.api.timeoutMs;
+
+    let freshSocket = false;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.transport.get(url, timeoutMs, freshSocket);
+        if (response.status < 200 || response.status >= 300) {
+          throw new HttpStatusError(response.status, response.body);
+        }
+        return parse(response);
+      } catch (error) {
+        const canRetry =
+          error instanceof ApiError &&
+          error.retryable &&
+          !(isWrite && error.maybeProcessed) &&
+          attempt < retries;
+        if (!canRetry) {
+          this.logger.error(`🌐 API request failed: ${error}`, {
+            event: "api_error",
+          });
+          throw error;
+        }
+
+        freshSocket = error instanceof NetworkError && error.staleSocket;
+        const delayMs = isWrite ? 0 : this.api.retryBaseDelayMs * 2 ** attempt;
+        this.logger.warn(
+          `🌐 ${error.message}, retrying in ${delayMs}ms (${attempt + 1}/${retries})`,
+          { event: "api_retry" },
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Build the fn=reservations URL (the "my reservations" screen)
+   */
+  private buildReservationsUrl(): string {
+    return this.buildUrl("functionality.php", {
+      fn: "reservations",
+      callback: "func_callback",
+    });
+  }
+
+  /**
+   * Build the reservations_form URL (the "new reservation" screen)
+   */
+  private buildFormUrl(): string {
+    return this.buildUrl("functionality.php", {
+      fn: "reservations_form",
+      eid: "-1", // -1 = new reservation
+      callback: "func_form_callback",
+    });
+  }
+
+  /**
+   * Build an endpoint URL with the auth parameters sent on every request
+   */
+  private buildUrl(endpoint: string, params: Record<string, string>): string {
     const queryParams = new URLSearchParams({
       lang: "null",
-      condo: "16", // Parques del Sol
+      condo: CONDO_ID,
       app_user: this.username,
       app_password: this.passwordHash,
+      ...params,
+      _: Date.now().toString(), // Cache buster
+    });
+
+    return `${this.baseUrl}/${endpoint}?${queryParams}`;
+  }
+
+  /**
+   * Build a poster.php URL for the given app_action (add/delete reservation)
+   */
+  private buildPosterUrl(
+    action: string,
+    params: Record<string, string>,
+  ): string {
+    return this.buildUrl("poster.php", {
+      ...params,
+      app_action: action,
+      fn_redirect: "reservations",
+      callback: "poster_callback",
+    });
+  }
+
+  /**
+   * Build the full API URL with all parameters
+   */
+  private buildReservationUrl(params: ReservationParams): string {
+    return this.buildPosterUrl("add_reservation", {
       area: params.area,
       day: params.day,
       schedule: params.schedule,
@@ -84,38 +482,167 @@ export class MobileAPIClient {
       time: "0",
       people: "1",
       comments: "",
-      app_action: "add_reservation",
-      fn_redirect: "reservations",
-      callback: "poster_callback",
-      _: Date.now().toString(), // Cache buster
     });
-
-    return `${this.baseUrl}?${queryParams}`;
   }
 
   /**
-   * Parse JSONP response from API
-   * Format: poster_callback({ "poster": { "result": 1, "msg": "..." } })
+   * Extract the JSON payload from a JSONP wrapper: callbackName({ ... })
    */
-  private parseJSONPResponse(text: string): ReservationResult {
-    // Extract JSON from JSONP wrapper
-    const match = text.match(/poster_callback\s*\(\s*(\{.*\})\s*\)/s);
+  private parseJSONP(
+    text: string,
+    callbackName: string,
+  ): Record<string, unknown> {
+    const pattern = new RegExp(
+      `${callbackName}\\s*\\(\\s*(\\{.*\\})\\s*\\)`,
+      "s",
+    );
+    const match = text.match(pattern);
 
     if (!match) {
-      console.error("[API] Invalid response format:", text);
-      throw new Error("Invalid JSONP response format");
+      throw new MalformedResponseError(`expected ${callbackName}(...)`, text);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(match[1]);
+    } catch (error) {
+      throw new MalformedResponseError(`invalid JSON: ${error}`, text);
     }
+    if (!isRecord(data)) {
+      throw new MalformedResponseError("payload is not an object", text);
+    }
+    return data;
+  }
 
-    const data = JSON.parse(match[1]);
+  /**
+   * Parse JSONP response from API
+   * Format: poster_callback({ "poster": { "result": 1, "msg": "..." } })
+   */
+  private parseJSONPResponse(text: string): ReservationResult {
+    const data = this.parseJSONP(text, "poster_callback");
     const poster = data.poster;
+    if (!isRecord(poster)) {
+      throw new UnexpectedPayloadError('no "poster" object');
+    }
 
     return {
       success: poster.result === 1,
-      message: poster.msg,
+      message: String(poster.msg ?? ""),
       rawResponse: data,
     };
   }
 
+  /**
+   * Parse validation JSONP response
+   * Format: validation_callback({ "valid": { "result": 1, "id_condo": "16", "condo_name": "..." } })
+   */
+  private parseValidationResponse(text: string): ValidationResult {
+    const data = this.parseJSONP(text, "validation_callback");
+    const valid = isRecord(data.valid) ? data.valid : {};
+    const condoId = valid.id_condo !== undefined ? String(valid.id_condo) : "";
+
+    let message = "";
+    if (Number(valid.result) !== 1) {
+      message =
+        String(valid.msg ?? "") ||
+        "Invalid credentials (validation result != 1)";
+    } else if (condoId !== CONDO_ID) {
+      message = `Unexpected condo: expected ${CONDO_ID}, got "${condoId}"`;
+    }
+
+    return {
+      valid: message === "",
+      condoId,
+      condoName: String(valid.condo_name ?? ""),
+      message,
+      rawResponse: data,
+    };
+  }
+
+  /**
+   * Parse the reservation list JSONP response
+   * Format: func_callback({ "func": { "result": 1, "reservations": [
+   *   { "id_reservation": "1234", "id_area": "5", ... } ] } })
+   *
+   * Only the RESERVATION_FIELDS names are read (no guessing): an item
+   * without them fails loudly instead of yielding empty fields.
+   */
+  private parseReservationsResponse(text: string): Reservation[] {
+    const data = this.parseJSONP(text, "func_callback");
+    const items = isRecord(data.func) ? data.func.reservations : undefined;
+
+    if (!Array.isArray(items)) {
+      throw new UnexpectedPayloadError('no "func.reservations" list');
+    }
+
+    return items.map((item: unknown) => {
+      if (!isRecord(item)) {
+        throw new UnexpectedPayloadError("reservation is not an object");
+      }
+      const missing = Object.values(RESERVATION_FIELDS).filter(
+        (field) => item[field] === undefined || item[field] === null,
+      );
+      if (missing.length > 0) {
+        throw new UnexpectedPayloadError(
+          `reservation without ${missing.join(", ")} (fields: ${Object.keys(item).join(", ")}); ` +
+            "see api-endpoints-discovered.md",
+        );
+      }
+
+      const field = (key: keyof typeof RESERVATION_FIELDS) =>
+        String(item[RESERVATION_FIELDS[key]]).trim();
+      return {
+        reservationId: field("reservationId"),
+        areaId: field("areaId"),
+        courtName: field("courtName"),
+        date: normalizeDate(field("date")),
+        scheduleId: field("scheduleId"),
+        timeSlot: field("timeSlot"),
+        status: field("status"),
+      };
+    });
+  }
+
+  /**
+   * Parse the reservation form JSONP response (the court areas only)
+   * Format: func_form_callback({ "func": { "areas": [ { "id_area": "5",
+   *   "schedules": [ { "id_schedule": "241", "day": 3, "schedule": "De 06:00 AM a 07:00 AM" } ] } ] } })
+   *
+   * Days are 0=Sunday ... 6=Saturday. Only this shape is accepted (no
+   * guessing): anything else fails loudly, since a misread day would book
+   * the wrong slot every night once written to schedule-ids.json.
+   */
+  private parseReservationFormResponse(text: string): ScheduleEntry[] {
+    const data = this.parseJSONP(text, "func_form_callback");
+    const areas = isRecord(data.func) ? data.func.areas : undefined;
+
+    if (!Array.isArray(areas)) {
+      throw new UnexpectedPayloadError(
+        'no "func.areas" list in reservations_form',
+      );
+    }
+
+    return FORM_COURT_AREA_IDS.flatMap((areaId) => {
+      const area = areas.find(
+        (a) => isRecord(a) && String(a.id_area) === areaId,
+      );
+      if (!isRecord(area)) {
+        throw new UnexpectedPayloadError(
+          `area ${areaId} not in reservations_form`,
+        );
+      }
+      if (!Array.isArray(area.schedules)) {
+        throw new UnexpectedPayloadError(
+          `area ${areaId} without a "schedules" list (fields: ${Object.keys(area).join(", ")}); ` +
+            "see api-endpoints-discovered.md",
+        );
+      }
+      return area.schedules.map((schedule: unknown) =>
+        parseFormSchedule(areaId, schedule),
+      );
+    });
+  }
+
   /**
    * Get password hash for debugging/verification
    */
@@ -123,3 +650,78 @@ export class MobileAPIClient {
     return this.passwordHash;
   }
 }
+
+/**
+ * Server field of each Reservation property in fn=reservations items
+ *
+ * UNVERIFIED: modelled on the add_reservation / reservations_form names, not
+ * read from a captured response (api-endpoints-discovered.md only records
+ * its size). Record one with `npm run list -- --raw` and fix these to match.
+ */
+const RESERVATION_FIELDS = {
+  reservationId: "id_reservation",
+  areaId: "id_area",
+  courtName: "area_name",
+  date: "day",
+  scheduleId: "id_schedule",
+  timeSlot: "schedule",
+  status: "status_name",
+} as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalize a server date ("2025-11-9" or "2025-11-09 00:00:00") to YYYY-MM-DD
+ */
+function normalizeDate(value: string): string {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (!match) {
+    return value;
+  }
+  return `${match[1]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}`;
+}
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const FORM_COURT_AREA_IDS = ["5", "7"] as const;
+
+/**
+ * One reservations_form schedule: { "id_schedule": "241", "day": 3,
+ *   "schedule": "De 06:00 AM a 07:00 AM" }
+ *
+ * UNVERIFIED: this shape is the one assumed when the form was first parsed;
+ * api-endpoints-discovered.md only records the response size. Record the
+ * real one with `npm run sync-schedules -- --raw`.
+ */
+function parseFormSchedule(areaId: string, schedule: unknown): ScheduleEntry {
+  const fields = isRecord(schedule) ? schedule : {};
+  const day = String(fields.day ?? "");
+  const slot = String(fields.schedule ?? "").match(
+    /^De (\d{2}:\d{2} [AP]M) a (\d{2}:\d{2} [AP]M)$/,
+  );
+  const scheduleId = String(fields.id_schedule ?? "");
+
+  if (!/^[0-6]$/.test(day) || !slot || !/^\d+$/.test(scheduleId)) {
+    throw new UnexpectedPayloadError(
+      `area ${areaId} schedule not in the expected shape: ` +
+        `${JSON.stringify(schedule).slice(0, 200)}; see api-endpoints-discovered.md`,
+    );
+  }
+
+  return {
+    areaId,
+    dayOfWeek: DAY_NAMES[Number(day)],
+    timeSlot: `${slot[1]} - ${slot[2]}`,
+    scheduleId,
+  };
+}
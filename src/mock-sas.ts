@@ -0,0 +1,283 @@
+/**
+ * Local mock of the SAS mobile API
+ *
+ * Serves validation.php, poster.php and functionality.php with the same
+ * JSONP formats as www.sasweb.net, so reserve.ts (and every other command)
+ * can be rehearsed end to end without touching the real condominium system.
+ * Point the client at it with SAS_BASE_URL=http://localhost:8787.
+ *
+ * Bookings are kept in memory: the first request for a court/day/schedule
+ * wins and later ones get the "slot taken" message, like the real server.
+ */
+
+import * as http from "http";
+import { getScheduleMapping } from "./schedule-resolver";
+import { nextMidnightCRMs } from "./time-cr";
+
+export const MOCK_SCENARIOS = [
+  "success", // Book normally (first request per slot wins)
+  "slot-taken", // Every booking finds the slot taken
+  "limit", // Every booking hits the reservation limit
+  "not-yet-available", // "Not yet available" until opensAtMs, then success
+  "slow", // Like success, with a 2s delay unless delayMs is set
+  "malformed", // Truncated / non-JSONP bodies
+  "invalid-credentials", // validation.php rejects the login
+  "shifted-days", // reservations_form numbers days from Monday (sync must refuse)
+] as const;
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number];
+
+export interface MockSasOptions {
+  scenario: MockScenario;
+  opensAtMs?: number; // not-yet-available: defaults to the next CR midnight
+  delayMs?: number; // Added to every response
+  onRequest?: (line: string) => void; // Access log
+}
+
+// Real server wording (see message-classifier.ts)
+export const MOCK_MESSAGES = {
+  success:
+    "Su reservación se ha realizado con éxito y ya se encuentra aprobada.",
+  slotTaken:
+    "Su reservación excede la cantidad máxima de reservaciones permitidas para este horario, ya existen otras reservaciones.",
+  limit:
+    "No es posible ingresar la reservación, usted ya ha sobrepasado el limite permitido.",
+  notYetAvailable:
+    "Esta fecha aún no está disponible para reservación. Las reservaciones serán habilitadas 8 días antes.",
+  cancelled: "Su reservación ha sido cancelada con éxito.",
+  notFound: "No se encontró la reservación.",
+  invalidLogin: "Usuario o contraseña incorrectos.",
+};
+
+const SLOW_DEFAULT_DELAY_MS = 2000;
+const DAY_INDEX: Record<string, number> = {
+  Sunday: 0,
+  Monday: 1,
+  Tuesday: 2,
+  Wednesday: 3,
+  Thursday: 4,
+  Friday: 5,
+  Saturday: 6,
+};
+const AREA_NAMES: Record<string, string> = {
+  "5": "Cancha de Tenis 1",
+  "7": "Cancha de Tenis 2",
+};
+
+interface MockReservation {
+  id: string;
+  areaId: string;
+  day: string;
+  scheduleId: string;
+}
+
+/**
+ * Create the mock server (not yet listening). The scenario can be changed
+ * at runtime with POST /__mock/scenario {"scenario": "...", ...}; the
+ * current state is at GET /__mock/state.
+ */
+export function createMockSasServer(options: MockSasOptions): http.Server {
+  const state = {
+    ...options,
+    opensAtMs: options.opensAtMs ?? nextMidnightCRMs(Date.now(), 0),
+  };
+  const reservations: MockReservation[] = [];
+  let nextId = 1000;
+
+  const handle = (url: URL, body: string): { status: number; body: string } => {
+    const q = url.searchParams;
+    const callback = q.get("callback") ?? "callback";
+    const jsonp = (payload: unknown) => ({
+      status: 200,
+      body: `${callback}(${JSON.stringify(payload)})`,
+    });
+
+    if (url.pathname.endsWith("/__mock/state")) {
+      return {
+        status: 200,
+        body: JSON.stringify({
+          scenario: state.scenario,
+          opensAt: new Date(state.opensAtMs).toISOString(),
+          delayMs: state.delayMs ?? 0,
+          reservations,
+        }),
+      };
+    }
+
+    if (url.pathname.endsWith("/__mock/scenario")) {
+      const update = JSON.parse(body || "{}");
+      if (!MOCK_SCENARIOS.includes(update.scenario)) {
+        return { status: 400, body: `Unknown scenario "${update.scenario}"` };
+      }
+      state.scenario = update.scenario;
+      if (update.opensAt) state.opensAtMs = Date.parse(update.opensAt);
+      if (update.delayMs !== undefined) state.delayMs = update.delayMs;
+      if (update.reset) reservations.length = 0;
+      return { status: 200, body: "ok" };
+    }
+
+    if (state.scenario === "malformed") {
+      return q.get("app_action") === "add_reservation"
+        ? {
+            status: 200,
+            body: `${callback}({"poster": {"result": 1, "msg": "Su res`,
+          }
+        : { status: 502, body: "<html><body>502 Bad Gateway</body></html>" };
+    }
+
+    if (url.pathname.endsWith("/validation.php")) {
+      return jsonp(
+        state.scenario === "invalid-credentials"
+          ? { valid: { result: 0, msg: MOCK_MESSAGES.invalidLogin } }
+          : {
+              valid: {
+                result: 1,
+                id_condo: "16",
+                condo_name: "Parques del Sol (mock)",
+              },
+            },
+      );
+    }
+
+    if (url.pathname.endsWith("/poster.php")) {
+      const action = q.get("app_action");
+      // Mirrors the client's unverified guess at the cancel request (see
+      // cancelReservation), so it cannot confirm the real app's request
+      if (action === "delete_reservation") {
+        const index = reservations.findIndex((r) => r.id === q.get("eid"));
+        if (index === -1) {
+          return jsonp({ poster: { result: 0, msg: MOCK_MESSAGES.notFound } });
+        }
+        reservations.splice(index, 1);
+        return jsonp({ poster: { result: 1, msg: MOCK_MESSAGES.cancelled } });
+      }
+
+      const msg = book(
+        q.get("area") ?? "",
+        q.get("day") ?? "",
+        q.get("schedule") ?? "",
+      );
+      return jsonp({
+        poster: { result: msg === MOCK_MESSAGES.success ? 1 : 0, msg },
+      });
+    }
+
+    if (url.pathname.endsWith("/functionality.php")) {
+      if (q.get("fn") === "reservations") {
+        return jsonp({
+          func: {
+            result: 1,
+            reservations: reservations.map((r) => ({
+              id_reservation: r.id,
+              id_area: r.areaId,
+              area_name: AREA_NAMES[r.areaId] ?? `Area ${r.areaId}`,
+              day: r.day,
+              id_schedule: r.scheduleId,
+              schedule: findSlot(r.areaId, r.scheduleId),
+              status_name: "Aprobada",
+            })),
+          },
+        });
+      }
+      if (q.get("fn") === "reservations_form") {
+        return jsonp({
+          func: {
+            result: 1,
+            areas: buildAreas(state.scenario === "shifted-days" ? 6 : 0),
+          },
+        });
+      }
+    }
+
+    return { status: 404, body: "Not found" };
+  };
+
+  const book = (areaId: string, day: string, scheduleId: string): string => {
+    switch (state.scenario) {
+      case "slot-taken":
+        return MOCK_MESSAGES.slotTaken;
+      case "limit":
+        return MOCK_MESSAGES.limit;
+      case "not-yet-available":
+        if (Date.now() < state.opensAtMs) return MOCK_MESSAGES.notYetAvailable;
+        break;
+    }
+
+    const taken = reservations.some(
+      (r) =>
+        r.areaId === areaId && r.day === day && r.scheduleId === scheduleId,
+    );
+    if (taken) return MOCK_MESSAGES.slotTaken;
+
+    reservations.push({ id: String(nextId++), areaId, day, scheduleId });
+    return MOCK_MESSAGES.success;
+  };
+
+  return http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      let response: { status: number; body: string };
+      try {
+        response = handle(url, body);
+      } catch (error) {
+        response = { status: 500, body: String(error) };
+      }
+
+      const delayMs =
+        state.delayMs ??
+        (state.scenario === "slow" ? SLOW_DEFAULT_DELAY_MS : 0);
+      setTimeout(() => {
+        res.writeHead(response.status, {
+          "Content-Type": "text/javascript; charset=utf-8",
+        });
+        res.end(response.body);
+        options.onRequest?.(
+          `${req.method} ${url.pathname} ${describe(url)} -> ${response.status} ${response.body.slice(0, 80)}`,
+        );
+      }, delayMs);
+    });
+  });
+}
+
+function describe(url: URL): string {
+  const q = url.searchParams;
+  return ["fn", "app_action", "area", "day", "schedule", "eid"]
+    .filter((key) => q.has(key))
+    .map((key) => `${key}=${q.get(key)}`)
+    .join(" ");
+}
+
+/**
+ * reservations_form payload built from the schedule IDs the bot uses
+ *
+ * @param dayShift - Added to every day number (mod 7), to fake a server
+ *   that numbers days differently
+ */
+function buildAreas(dayShift: number) {
+  return (["5", "7"] as const).map((areaId) => ({
+    id_area: areaId,
+    name: AREA_NAMES[areaId],
+    schedules: Object.entries(getScheduleMapping(areaId)).flatMap(
+      ([day, slots]) =>
+        Object.entries(slots as Record<string, string>).map(
+          ([slot, scheduleId]) => ({
+            id_schedule: scheduleId,
+            day: (DAY_INDEX[day] + dayShift) % 7,
+            schedule: `De ${slot.replace(" - ", " a ")}`,
+          }),
+        ),
+    ),
+  }));
+}
+
+function findSlot(areaId: string, scheduleId: string): string {
+  if (areaId !== "5" && areaId !== "7") return "";
+  for (const slots of Object.values(getScheduleMapping(areaId))) {
+    for (const [slot, id] of Object.entries(slots as Record<string, string>)) {
+      if (id === scheduleId) return slot;
+    }
+  }
+  return "";
+}
@@ -0,0 +1,36 @@
+/**
+ * Local output notifiers: console (stdout) and file (JSON lines)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { Notification, Notifier } from "./types";
+
+export class ConsoleNotifier implements Notifier {
+  readonly name = "console";
+
+  async send(notification: Notification): Promise<void> {
+    console.log(`\n📣 ${notification.subject}\n\n${notification.text}\n`);
+  }
+}
+
+/**
+ * Appends one JSON line per notification, including the structured summary
+ */
+export class FileNotifier implements Notifier {
+  readonly name: string;
+
+  constructor(private file: string) {
+    this.name = `file(${path.basename(file)})`;
+  }
+
+  async send(notification: Notification): Promise<string> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(
+      this.file,
+      JSON.stringify({ timestamp: new Date().toISOString(), ...notification }) +
+        "\n",
+    );
+    return `Appended to ${this.file}`;
+  }
+}
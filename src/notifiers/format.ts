@@ -0,0 +1,185 @@
+/**
+ * Plain-text rendering of run summaries and alerts, shared by all notifiers
+ */
+
+import { getDayOfWeek, parseDateInCR } from "../time-cr";
+import { getMessageTypeInfo, getStatusIcon } from "../message-classifier";
+import { formatTiming } from "../http-transport";
+import { formatCalibration } from "../clock-calibration";
+import type { ReservationOutcome } from "../types";
+import type { Notification, RunSummary } from "./types";
+
+export function formatDateForEmail(dateString: string): string {
+  // Convert YYYY-MM-DD (or unpadded YYYY-M-D) to "Wednesday 17th"
+  const date = parseDateInCR(dateString);
+  const dayOfWeek = getDayOfWeek(date);
+  const day = date.day;
+
+  // Add ordinal suffix (1st, 2nd, 3rd, 4th, etc.)
+  const suffix =
+    day === 1 || day === 21 || day === 31
+      ? "st"
+      : day === 2 || day === 22
+        ? "nd"
+        : day === 3 || day === 23
+          ? "rd"
+          : "th";
+
+  return `${dayOfWeek} ${day}${suffix}`;
+}
+
+export function formatMs(ms: number): string {
+  // Format milliseconds into human-readable format
+  if (ms < 60000) {
+    // Under 1 minute: show as seconds (e.g., "0.57s" or "5.23s")
+    return `${(ms / 1000).toFixed(2)}s`;
+  } else {
+    // Over 1 minute: show as minutes and seconds (e.g., "1m 30s")
+    const minutes = Math.floor(ms / 60000);
+    const seconds = ((ms % 60000) / 1000).toFixed(0);
+    return `${minutes}m ${seconds}s`;
+  }
+}
+
+function formatBurst(r: ReservationOutcome): string {
+  return r.burstAttempts && r.burstAttempts > 1
+    ? ` (${r.burstAttempts} submissions)`
+    : "";
+}
+
+function formatPreferenceLines(r: ReservationOutcome): string {
+  // Only worth mentioning when fallbacks were involved
+  if (!r.tried || r.tried.length <= 1) {
+    return "";
+  }
+
+  let lines =
+    r.status === "SUCCESS"
+      ? `   🔁 Won preference #${r.preference} of ${r.tried.length} tried\n`
+      : `   🔁 ${r.tried.length} preferences tried, none booked\n`;
+  r.tried.forEach((t, i) => {
+    lines += `      ${i + 1}. ${getStatusIcon(t.status)} ${t.courtName} at ${t.time} (${t.status})\n`;
+  });
+  return lines;
+}
+
+function formatOutcome(r: ReservationOutcome, label: string): string {
+  const icon = getStatusIcon(r.status);
+  const formattedDate = formatDateForEmail(r.date!);
+  let text = `${icon} ${r.courtName} - ${formattedDate} at ${r.time}\n`;
+  text += `   ${label}: ${r.friendlyMessage}\n`;
+  const suggestion = getMessageTypeInfo(r.status).suggestion;
+  if (r.status !== "SUCCESS" && suggestion) {
+    text += `   💡 ${suggestion}\n`;
+  }
+  text += formatPreferenceLines(r);
+  if (r.apiCallMs) {
+    text += `   📊 API call: ${formatMs(r.apiCallMs)}${formatBurst(r)}\n`;
+    if (r.telemetry) {
+      text += `   🔌 ${formatTiming(r.telemetry)}\n`;
+    }
+  }
+  return text + "\n";
+}
+
+/**
+ * Subject line for a run (matching Playwright format)
+ */
+export function formatRunSubject(summary: RunSummary): string {
+  const total = summary.outcomes.length;
+  const successes = summary.outcomes.filter(
+    (r) => r.status === "SUCCESS",
+  ).length;
+  const errors = total - successes;
+
+  const subject =
+    successes > 0 && errors === 0
+      ? `Reservations Confirmed ✅ (${successes}/${successes})`
+      : successes > 0 && errors > 0
+        ? `Partial Success ⚠️ (${successes}/${total})`
+        : `Reservation Failed ❌`;
+
+  // Failures a person has to fix (credentials, dues, unknown responses)
+  const alert = needsAttention(summary) ? " 🚨 Action needed" : "";
+
+  return summary.test ? `[TEST] ${subject}${alert}` : `${subject}${alert}`;
+}
+
+/**
+ * Whether any outcome calls for a person to act, not just a retry tomorrow
+ */
+export function needsAttention(summary: RunSummary): boolean {
+  return summary.outcomes.some(
+    (r) => getMessageTypeInfo(r.status).action === "alert",
+  );
+}
+
+/**
+ * Render a run summary as plain text
+ */
+export function formatRunSummaryText(summary: RunSummary): string {
+  // Separate successes and errors
+  const successes = summary.outcomes.filter((r) => r.status === "SUCCESS");
+  const errors = summary.outcomes.filter((r) => r.status !== "SUCCESS");
+
+  // Build body (matching Playwright format)
+  let text = "=== Tennis Court Reservation Summary ===\n\n";
+
+  if (summary.test) {
+    text += "🧪 TEST MODE:\n";
+    text += "(Results may vary from production)\n\n";
+  }
+
+  // Success section
+  if (successes.length > 0) {
+    text += "🎾 REAL BOOKINGS CONFIRMED:\n";
+    successes.forEach((r) => (text += formatOutcome(r, "Status")));
+  }
+
+  // Error section
+  if (errors.length > 0) {
+    text += "❌ FAILED RESERVATIONS:\n";
+    errors.forEach((r) => (text += formatOutcome(r, "Error")));
+  }
+
+  // Footer
+  const trigger = summary.trigger;
+  text += `\n📅 Run time: ${summary.runAt}`;
+  if (trigger) {
+    text += `\n⏱️  T0 (midnight): ${new Date(trigger.targetMs).toISOString()}`;
+    text += `\n🎯 Fired: ${new Date(trigger.firedAtMs).toISOString()} (offset ${trigger.fireOffsetMs}ms, drift ${trigger.driftMs.toFixed(2)}ms)`;
+    text += trigger.calibration
+      ? `\n🕰️  Server clock offset: ${formatCalibration(trigger.calibration)}`
+      : `\n🕰️  Server clock offset: not calibrated (aimed at local midnight)`;
+  }
+  text += `\n⚡ Total execution: ${formatMs(summary.totalTimeMs)}`;
+  text += `\n🚀 Mode: API (Mobile App)`;
+  if (summary.logFile) {
+    text += `\n📄 Log file: ${summary.logFile}`;
+  }
+
+  return text;
+}
+
+/**
+ * Render the alert sent when the preflight check fails before midnight
+ */
+export function formatPreflightAlert(
+  reason: string,
+  test: boolean,
+  logFile?: string,
+): Notification {
+  let text = "=== Tennis Court Reservation Preflight FAILED ===\n\n";
+  text += "The reservation run was aborted BEFORE midnight.\n";
+  text += "No reservations will be attempted tonight.\n\n";
+  text += `❌ Reason: ${reason}\n\n`;
+  text += "Check TENNIS_USERNAME / TENNIS_PASSWORD and that\n";
+  text += "www.sasweb.net is reachable, then re-run before 00:00 CR.\n";
+  text += `\n📅 Run time: ${new Date().toISOString()}`;
+  if (logFile) {
+    text += `\n📄 Log file: ${logFile}`;
+  }
+
+  const subject = "Preflight Failed 🚨";
+  return { subject: test ? `[TEST] ${subject}` : subject, text };
+}
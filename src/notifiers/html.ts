@@ -0,0 +1,131 @@
+/**
+ * HTML rendering of run summaries for email notifiers
+ *
+ * Inline styles only (email clients strip <style> blocks), and every value
+ * that comes from the server or config is escaped.
+ */
+
+import { getMessageTypeInfo, getStatusIcon } from "../message-classifier";
+import { formatTiming } from "../http-transport";
+import { formatCalibration } from "../clock-calibration";
+import type { ReservationOutcome } from "../types";
+import type { RunSummary } from "./types";
+import {
+  formatDateForEmail,
+  formatMs,
+  formatRunSubject,
+  needsAttention,
+} from "./format";
+
+const CELL = "padding: 8px 10px; border-bottom: 1px solid #e5e5e5;";
+const MUTED = "color: #777; font-size: 12px;";
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render a run summary as a standalone HTML email
+ */
+export function renderRunSummaryHtml(summary: RunSummary): string {
+  const rows = summary.outcomes.map(renderOutcomeRow).join("\n");
+  const footer = renderFooter(summary);
+  const alertBanner = needsAttention(summary)
+    ? `<p style="background: #fde2e1; padding: 8px 10px; border-radius: 4px;">🚨 <b>Action needed</b> - see the suggestions below</p>`
+    : "";
+  const testBanner = summary.test
+    ? `<p style="background: #fff4d6; padding: 8px 10px; border-radius: 4px;">🧪 <b>TEST MODE</b> - results may vary from production</p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color: #222; max-width: 720px;">
+<h2 style="margin-bottom: 4px;">🎾 ${escapeHtml(formatRunSubject(summary))}</h2>
+${testBanner}
+${alertBanner}
+<table style="border-collapse: collapse; width: 100%;">
+<tr style="text-align: left; background: #f5f5f5;">
+<th style="${CELL}">Status</th><th style="${CELL}">Court</th><th style="${CELL}">Slot</th><th style="${CELL}">Result</th><th style="${CELL}">Latency</th>
+</tr>
+${rows}
+</table>
+<p style="${MUTED}">${footer}</p>
+</body>
+</html>
+`;
+}
+
+function renderOutcomeRow(r: ReservationOutcome): string {
+  const date = r.date ? formatDateForEmail(r.date) : "";
+  const raw =
+    r.rawMessage && r.rawMessage !== r.friendlyMessage
+      ? `<br><span style="${MUTED}">Server: ${escapeHtml(r.rawMessage)}</span>`
+      : "";
+  const suggestion = getMessageTypeInfo(r.status).suggestion;
+  const hint =
+    r.status !== "SUCCESS" && suggestion
+      ? `<br><span style="font-size: 12px;">💡 ${escapeHtml(suggestion)}</span>`
+      : "";
+
+  let latency = r.apiCallMs ? formatMs(r.apiCallMs) : "-";
+  if (r.burstAttempts && r.burstAttempts > 1) {
+    latency += `<br><span style="${MUTED}">${r.burstAttempts} submissions</span>`;
+  }
+  if (r.telemetry) {
+    latency += `<br><span style="${MUTED}">${escapeHtml(formatTiming(r.telemetry))}</span>`;
+  }
+
+  return `<tr style="vertical-align: top;">
+<td style="${CELL} white-space: nowrap;">${getStatusIcon(r.status)} ${r.status}</td>
+<td style="${CELL}">${escapeHtml(r.courtName)}</td>
+<td style="${CELL} white-space: nowrap;">${escapeHtml(date)}<br>${escapeHtml(r.time ?? "")}</td>
+<td style="${CELL}">${escapeHtml(r.friendlyMessage)}${raw}${hint}${renderPreferences(r)}</td>
+<td style="${CELL} white-space: nowrap;">${latency}</td>
+</tr>`;
+}
+
+function renderPreferences(r: ReservationOutcome): string {
+  // Only worth mentioning when fallbacks were involved
+  if (!r.tried || r.tried.length <= 1) {
+    return "";
+  }
+
+  const items = r.tried
+    .map(
+      (t) =>
+        `<li>${getStatusIcon(t.status)} ${escapeHtml(t.courtName)} at ${escapeHtml(t.time)} (${t.status})</li>`,
+    )
+    .join("");
+  const heading =
+    r.status === "SUCCESS"
+      ? `Won preference #${r.preference} of ${r.tried.length} tried`
+      : `${r.tried.length} preferences tried, none booked`;
+
+  return `<div style="${MUTED} margin-top: 6px;">🔁 ${heading}<ol style="margin: 4px 0; padding-left: 20px;">${items}</ol></div>`;
+}
+
+function renderFooter(summary: RunSummary): string {
+  const lines = [`📅 Run time: ${summary.runAt}`];
+  const trigger = summary.trigger;
+
+  if (trigger) {
+    lines.push(
+      `⏱️ T0 (midnight): ${new Date(trigger.targetMs).toISOString()}`,
+      `🎯 Fired: ${new Date(trigger.firedAtMs).toISOString()} (offset ${trigger.fireOffsetMs}ms, drift ${trigger.driftMs.toFixed(2)}ms)`,
+      trigger.calibration
+        ? `🕰️ Server clock offset: ${formatCalibration(trigger.calibration)}`
+        : "🕰️ Server clock offset: not calibrated (aimed at local midnight)",
+    );
+  }
+  lines.push(`⚡ Total execution: ${formatMs(summary.totalTimeMs)}`);
+  if (summary.logFile) {
+    lines.push(`📄 Log file: ${summary.logFile}`);
+  }
+
+  return lines.map(escapeHtml).join("<br>");
+}
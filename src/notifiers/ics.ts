@@ -0,0 +1,136 @@
+/**
+ * iCalendar (.ics) events for confirmed bookings (RFC 5545)
+ */
+
+import { CR_TZ } from "../time-cr";
+import { slotStartMinutes } from "../schedule-sync";
+import type { ReservationOutcome } from "../types";
+import type { Attachment } from "./types";
+
+// Costa Rica has no DST, so a single STANDARD component describes it fully
+const CR_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${CR_TZ}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:-0600",
+  "TZOFFSETTO:-0600",
+  "TZNAME:CST",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+/**
+ * Parse "06:00 AM - 07:00 AM" into minutes since midnight
+ *
+ * @returns null if the slot is not in that format
+ */
+export function parseTimeSlot(
+  timeSlot: string,
+): { startMinutes: number; endMinutes: number } | null {
+  const [start, end] = timeSlot.split("-").map((s) => s.trim());
+  if (!start || !end) return null;
+
+  const startMinutes = slotStartMinutes(start);
+  const endMinutes = slotStartMinutes(end);
+  if (
+    startMinutes === Number.MAX_SAFE_INTEGER ||
+    endMinutes === Number.MAX_SAFE_INTEGER
+  ) {
+    return null;
+  }
+  return { startMinutes, endMinutes };
+}
+
+/**
+ * Build a calendar event for a SUCCESS outcome, in Costa Rica local time
+ *
+ * @returns The .ics attachment, or null if the date or slot can't be parsed
+ */
+export function buildBookingEvent(
+  outcome: ReservationOutcome,
+  stampedAt: Date = new Date(),
+): Attachment | null {
+  const slot = outcome.time ? parseTimeSlot(outcome.time) : null;
+  const dateMatch = outcome.date?.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!slot || !dateMatch) return null;
+
+  const ymd =
+    dateMatch[1] +
+    dateMatch[2].padStart(2, "0") +
+    dateMatch[3].padStart(2, "0");
+  const localTime = (minutes: number) =>
+    `${ymd}T${String(Math.floor(minutes / 60)).padStart(2, "0")}${String(minutes % 60).padStart(2, "0")}00`;
+  const courtSlug = outcome.courtName
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//tennis-reservation//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...CR_VTIMEZONE,
+    "BEGIN:VEVENT",
+    `UID:${ymd}-${slot.startMinutes}-${courtSlug}@tennis-reservation`,
+    `DTSTAMP:${stampedAt
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "")}`,
+    `DTSTART;TZID=${CR_TZ}:${localTime(slot.startMinutes)}`,
+    `DTEND;TZID=${CR_TZ}:${localTime(slot.endMinutes)}`,
+    `SUMMARY:${escapeText(`🎾 Tennis - ${outcome.courtName}`)}`,
+    `LOCATION:${escapeText(outcome.courtName)}`,
+    `DESCRIPTION:${escapeText(`${outcome.time}\n${outcome.rawMessage}`)}`,
+    "STATUS:CONFIRMED",
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return {
+    filename: `tennis-${courtSlug}-${ymd}.ics`,
+    contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+    content: lines.map(foldLine).join("\r\n") + "\r\n",
+  };
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold lines longer than 75 octets, without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
@@ -0,0 +1,123 @@
+/**
+ * Notifier registry
+ *
+ * Builds the configured notifiers and delivers a notification to all of
+ * them. Each notifier is isolated: one failing (after its retries) does not
+ * stop the others, and notifyAll never throws.
+ */
+
+import * as path from "path";
+import type { AppConfig, NotifierConfig } from "../types";
+import { NotifyError, type Notification, type Notifier } from "./types";
+import { ResendNotifier } from "./resend";
+import { SmtpNotifier } from "./smtp";
+import { WebhookNotifier } from "./webhook";
+import { ConsoleNotifier, FileNotifier } from "./console";
+
+export * from "./types";
+export * from "./format";
+export * from "./summary";
+export * from "./weekly";
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * A notifier plus how many times to re-send after a retryable failure
+ */
+export interface ConfiguredNotifier {
+  notifier: Notifier;
+  retries: number;
+}
+
+export interface DeliveryResult {
+  name: string;
+  ok: boolean;
+  attempts: number;
+  detail?: string; // Notifier's success detail, or the last error
+}
+
+/**
+ * Instantiate the notifiers listed in config.notifiers
+ */
+export function createNotifiers(config: AppConfig): ConfiguredNotifier[] {
+  return config.notifiers.map((entry) => ({
+    notifier: createNotifier(entry, config),
+    retries: entry.retries ?? DEFAULT_RETRIES,
+  }));
+}
+
+function createNotifier(entry: NotifierConfig, config: AppConfig): Notifier {
+  switch (entry.type) {
+    case "resend":
+      return new ResendNotifier(
+        config.resendApiKey,
+        config.emailFrom,
+        config.emailTo,
+      );
+    case "smtp":
+      return new SmtpNotifier(
+        { ...entry, password: process.env.SMTP_PASSWORD },
+        config.emailFrom,
+        config.emailTo,
+      );
+    case "webhook":
+      return new WebhookNotifier(entry.url, entry.headers);
+    case "console":
+      return new ConsoleNotifier();
+    case "file":
+      // Relative paths are relative to the repo root (this runs from dist/src/notifiers)
+      return new FileNotifier(
+        path.resolve(path.join(__dirname, "..", "..", ".."), entry.path),
+      );
+  }
+}
+
+/**
+ * Send a notification through every notifier, retrying retryable failures
+ * with exponential backoff (1s, 2s, 4s, ...)
+ *
+ * @returns One result per notifier, in config order
+ */
+export async function notifyAll(
+  notifiers: ConfiguredNotifier[],
+  notification: Notification,
+): Promise<DeliveryResult[]> {
+  return Promise.all(
+    notifiers.map(({ notifier, retries }) =>
+      deliver(notifier, notification, retries),
+    ),
+  );
+}
+
+async function deliver(
+  notifier: Notifier,
+  notification: Notification,
+  retries: number,
+): Promise<DeliveryResult> {
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    try {
+      const detail = await notifier.send(notification);
+      return {
+        name: notifier.name,
+        ok: true,
+        attempts,
+        detail: detail || undefined,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = !(error instanceof NotifyError) || error.retryable;
+
+      if (!retryable || attempts > retries) {
+        return { name: notifier.name, ok: false, attempts, detail: message };
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+      );
+    }
+  }
+}
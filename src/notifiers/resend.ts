@@ -0,0 +1,66 @@
+/**
+ * Resend email notifier (https://resend.com)
+ */
+
+import { NotifyError, type Notification, type Notifier } from "./types";
+import { escapeHtml } from "./html";
+
+const RESEND_URL = "https://api.resend.com/emails";
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export class ResendNotifier implements Notifier {
+  readonly name = "resend";
+
+  constructor(
+    private apiKey: string | undefined,
+    private from: string,
+    private to: string,
+  ) {}
+
+  async send(notification: Notification): Promise<string> {
+    if (!this.apiKey) {
+      throw new NotifyError("RESEND_API_KEY is not set", false);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(RESEND_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          from: this.from,
+          to: [this.to],
+          subject: `🎾 ${notification.subject}`,
+          text: notification.text,
+          html:
+            notification.html ??
+            `<pre style="font-family: monospace; font-size: 13px;">${escapeHtml(notification.text)}</pre>`,
+          attachments: notification.attachments?.map((a) => ({
+            filename: a.filename,
+            content: Buffer.from(a.content).toString("base64"),
+            content_type: a.contentType,
+          })),
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new NotifyError(`Resend request failed: ${error}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      // 4xx (other than rate limiting) will not succeed on retry
+      const retryable = response.status >= 500 || response.status === 429;
+      throw new NotifyError(
+        `Resend rejected email: ${response.status} ${errorText}`,
+        retryable,
+      );
+    }
+
+    const data = await response.json();
+    return `Email sent (ID: ${data.id})`;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * SMTP email notifier
+ *
+ * A deliberately small SMTP client (EHLO, optional STARTTLS, AUTH PLAIN,
+ * one message) so the bot can mail through any relay without extra
+ * dependencies. Point it at a local catch-all (e.g. `host: "localhost",
+ * port: 1025`) to inspect messages during development.
+ */
+
+import * as net from "net";
+import * as tls from "tls";
+import * as os from "os";
+import { NotifyError, type Notification, type Notifier } from "./types";
+
+const SOCKET_TIMEOUT_MS = 15_000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465)
+  secure?: boolean;
+  // Upgrade a plain connection with STARTTLS (usually port 587)
+  startTls?: boolean;
+  username?: string;
+  password?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Line-oriented reader over a socket that yields complete (possibly
+ * multi-line) SMTP replies
+ */
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: ((reply: SmtpReply) => void) | null = null;
+  private failed: ((error: Error) => void) | null = null;
+  private error: Error | null = null;
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    this.drain();
+  };
+  private readonly onError = (error: Error) => {
+    this.error = new NotifyError(`SMTP connection failed: ${error.message}`);
+    this.failed?.(this.error);
+  };
+  private readonly onClose = () =>
+    this.onError(new Error("connection closed by server"));
+
+  constructor(private socket: net.Socket) {
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  /**
+   * Stop listening, so the socket can be handed to tls.connect
+   */
+  detach(): void {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  next(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      if (this.error) return reject(this.error);
+      this.waiting = resolve;
+      this.failed = reject;
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    let newline: number;
+    while (this.waiting && (newline = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues, "250 ..." ends the reply
+      if (line.charAt(3) !== "-") {
+        const reply = {
+          code: parseInt(line.slice(0, 3), 10),
+          lines: this.lines,
+        };
+        const resolve = this.waiting;
+        this.lines = [];
+        this.waiting = null;
+        this.failed = null;
+        resolve(reply);
+      }
+    }
+  }
+}
+
+export class SmtpNotifier implements Notifier {
+  readonly name: string;
+
+  constructor(
+    private options: SmtpOptions,
+    private from: string,
+    private to: string,
+  ) {
+    this.name = `smtp(${options.host}:${options.port})`;
+  }
+
+  async send(notification: Notification): Promise<string> {
+    const { host, port, secure } = this.options;
+    let socket: net.Socket = await connect(host, port, secure ?? false);
+
+    try {
+      let reader = new ReplyReader(socket);
+      const command = async (line: string | null, expect: number[]) => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await reader.next();
+        if (!expect.includes(reply.code)) {
+          // 4xx is a transient failure in SMTP, 5xx is permanent
+          throw new NotifyError(
+            `SMTP ${line?.split(" ")[0] ?? "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`,
+            reply.code < 500,
+          );
+        }
+        return reply;
+      };
+
+      await command(null, [220]);
+      let ehlo = await command(`EHLO ${os.hostname()}`, [250]);
+
+      if (this.options.startTls && !secure) {
+        if (!ehlo.lines.some((l) => l.toUpperCase().startsWith("STARTTLS"))) {
+          throw new NotifyError(`${host} does not offer STARTTLS`, false);
+        }
+        await command("STARTTLS", [220]);
+        reader.detach();
+        socket = await upgrade(socket, host);
+        reader = new ReplyReader(socket);
+        ehlo = await command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (this.options.username) {
+        const credentials = Buffer.from(
+          `\0${this.options.username}\0${this.options.password ?? ""}`,
+        ).toString("base64");
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${extractAddress(this.from)}>`, [250]);
+      await command(`RCPT TO:<${extractAddress(this.to)}>`, [250, 251]);
+      await command("DATA", [354]);
+      const reply = await command(
+        `${buildMessage(this.from, this.to, notification)}\r\n.`,
+        [250],
+      );
+
+      socket.write("QUIT\r\n");
+      return `Email sent (${reply.lines.join(" ")})`;
+    } finally {
+      socket.end();
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function connect(
+  host: string,
+  port: number,
+  secure: boolean,
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () =>
+      socket.destroy(new Error(`SMTP connection to ${host} timed out`)),
+    );
+    socket.once("error", (error) =>
+      reject(new NotifyError(`SMTP connection failed: ${error.message}`)),
+    );
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () =>
+      resolve(secured),
+    );
+    secured.once("error", (error) =>
+      reject(new NotifyError(`STARTTLS failed: ${error.message}`)),
+    );
+  });
+}
+
+/**
+ * "Tennis Reservations <bot@example.com>" -> "bot@example.com"
+ */
+function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function buildMessage(
+  from: string,
+  to: string,
+  notification: Notification,
+): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(`🎾 ${notification.subject}`)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+  ];
+  const text = mimePart("text/plain; charset=UTF-8", notification.text);
+
+  // Plain text only: no multipart needed
+  if (!notification.html && !notification.attachments?.length) {
+    return [...headers, text].join("\r\n");
+  }
+
+  const alternative = notification.html
+    ? multipart("alternative", [
+        text,
+        mimePart("text/html; charset=UTF-8", notification.html),
+      ])
+    : text;
+  const attachments = (notification.attachments ?? []).map((a) =>
+    mimePart(
+      a.contentType,
+      a.content,
+      `Content-Disposition: attachment; filename="${a.filename}"`,
+    ),
+  );
+
+  return [...headers, multipart("mixed", [alternative, ...attachments])].join(
+    "\r\n",
+  );
+}
+
+/**
+ * A base64-encoded MIME part (headers, blank line, body)
+ */
+function mimePart(
+  contentType: string,
+  content: string,
+  ...extraHeaders: string[]
+): string {
+  const body = Buffer.from(content)
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+
+  return [
+    `Content-Type: ${contentType}`,
+    "Content-Transfer-Encoding: base64",
+    ...extraHeaders,
+    "",
+    body,
+  ].join("\r\n");
+}
+
+function multipart(subtype: string, parts: string[]): string {
+  const boundary = `----=_tennis_${subtype}_${Date.now().toString(36)}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
@@ -0,0 +1,26 @@
+/**
+ * Run summary notification: plain text, HTML and one .ics per booking
+ */
+
+import type { Attachment, Notification, RunSummary } from "./types";
+import { formatRunSubject, formatRunSummaryText } from "./format";
+import { renderRunSummaryHtml } from "./html";
+import { buildBookingEvent } from "./ics";
+
+/**
+ * Render a run summary as a notification
+ */
+export function formatRunSummary(summary: RunSummary): Notification {
+  const attachments = summary.outcomes
+    .filter((r) => r.status === "SUCCESS")
+    .map((r) => buildBookingEvent(r))
+    .filter((a): a is Attachment => a !== null);
+
+  return {
+    subject: formatRunSubject(summary),
+    text: formatRunSummaryText(summary),
+    html: renderRunSummaryHtml(summary),
+    attachments,
+    summary,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Notifier type definitions
+ */
+
+import type { MidnightTrigger, ReservationOutcome } from "../types";
+
+/**
+ * Everything known about a finished reservation run
+ */
+export interface RunSummary {
+  outcomes: ReservationOutcome[];
+  test: boolean;
+  runAt: string; // ISO timestamp
+  totalTimeMs: number;
+  trigger: MidnightTrigger | null;
+  logFile?: string;
+}
+
+/**
+ * A message to deliver: pre-rendered subject/text (and HTML for email),
+ * plus the structured run summary for notifiers that want the raw data
+ * (webhook, file)
+ */
+export interface Notification {
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: Attachment[];
+  summary?: RunSummary;
+}
+
+/**
+ * A file attached to email notifications (e.g. an .ics event)
+ */
+export interface Attachment {
+  filename: string;
+  contentType: string;
+  content: string; // UTF-8 text
+}
+
+export interface Notifier {
+  readonly name: string;
+  /**
+   * Deliver a notification
+   *
+   * @returns Optional detail for the log (e.g. the provider's message ID)
+   * @throws NotifyError (or any error) if delivery failed
+   */
+  send(notification: Notification): Promise<string | void>;
+}
+
+/**
+ * Delivery failure. Non-retryable errors (bad config, rejected request)
+ * are not retried by notifyAll.
+ */
+export class NotifyError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean = true,
+  ) {
+    super(message);
+    this.name = "NotifyError";
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Generic JSON webhook notifier
+ *
+ * POSTs { subject, text, summary } to any URL, e.g. a chat integration or
+ * a local stand-in (http://localhost:8787/hook) for testing.
+ */
+
+import { NotifyError, type Notification, type Notifier } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export class WebhookNotifier implements Notifier {
+  readonly name: string;
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+  ) {
+    this.name = `webhook(${new URL(url).host})`;
+  }
+
+  async send(notification: Notification): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new NotifyError(`Webhook request failed: ${error}`);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status >= 500 || response.status === 429;
+      throw new NotifyError(
+        `Webhook returned ${response.status} ${await response.text()}`,
+        retryable,
+      );
+    }
+
+    return `Webhook accepted (${response.status})`;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Weekly digest notification: plain text and HTML
+ */
+
+import type { Notification } from "./types";
+import type { Reservation } from "../mobile-api-client";
+import { escapeHtml } from "./html";
+import {
+  formatShortDate,
+  formatWeekRange,
+  type PlannedSlot,
+  type PlannedSlotStatus,
+  type WeeklyDigest,
+} from "../weekly-summary";
+
+const CELL = "padding: 8px 10px; border-bottom: 1px solid #e5e5e5;";
+const MUTED = "color: #777; font-size: 12px;";
+
+const STATUS_ICONS: Record<PlannedSlotStatus, string> = {
+  booked: "✅",
+  fallback: "🔁",
+  missing: "❌",
+  "not-open": "⏳",
+  past: "⌛",
+};
+
+/**
+ * Render the digest as a notification
+ *
+ * @param nextRun - When the next booking window opens (e.g.
+ *   "2025-10-15 00:00:00 CR"), or null if no slot is configured
+ */
+export function formatWeeklyDigest(
+  digest: WeeklyDigest,
+  nextRun: string | null,
+): Notification {
+  const range = formatWeekRange(digest.from, digest.to);
+  const subject =
+    `Tennis Reservations - Week of ${range}` +
+    (digest.gaps.length > 0
+      ? ` 🚨 ${digest.gaps.length} slot(s) not booked`
+      : "");
+
+  return {
+    subject,
+    text: formatText(digest, range, nextRun),
+    html: formatHtml(digest, range, nextRun),
+  };
+}
+
+function describePlanned(p: PlannedSlot): string {
+  switch (p.status) {
+    case "booked":
+      return "booked";
+    case "fallback":
+      return `fallback: ${p.reservation!.courtName} ${p.reservation!.timeSlot}`;
+    case "missing":
+      return "NOT BOOKED - book it by hand or run watch";
+    case "not-open":
+      return "not open yet, the midnight run will try";
+    case "past":
+      return "not booked, already started";
+  }
+}
+
+function formatText(
+  digest: WeeklyDigest,
+  range: string,
+  nextRun: string | null,
+): string {
+  let text = `🎾 Tennis Reservations - Week of ${range}\n\n`;
+
+  if (digest.gaps.length > 0) {
+    text += `🚨 ${digest.gaps.length} CONFIGURED SLOT(S) NOT BOOKED:\n`;
+    for (const g of digest.gaps) {
+      text += `❌ ${formatShortDate(g.date)} - ${g.courtName} - ${g.timeSlot}\n`;
+    }
+    text += "\n";
+  }
+
+  text += "CONFIRMED RESERVATIONS:\n";
+  if (digest.reservations.length === 0) {
+    text += "(none)\n";
+  }
+  for (const r of digest.reservations) {
+    text += `✅ ${formatShortDate(r.date)} - ${r.courtName} - ${r.timeSlot}\n`;
+  }
+
+  text += "\nWEEKLY PLAN:\n";
+  if (digest.planned.length === 0) {
+    text += "(no slots configured)\n";
+  }
+  for (const p of digest.planned) {
+    text += `${STATUS_ICONS[p.status]} ${formatShortDate(p.date)} - ${p.courtName} - ${p.timeSlot}: ${describePlanned(p)}\n`;
+  }
+
+  text += "\nUPCOMING:\n";
+  text += nextRun
+    ? `📅 Next reservation attempt: ${nextRun}\n`
+    : "📅 No reservation attempt scheduled (no slots configured)\n";
+
+  return text;
+}
+
+function formatHtml(
+  digest: WeeklyDigest,
+  range: string,
+  nextRun: string | null,
+): string {
+  const gapBanner =
+    digest.gaps.length > 0
+      ? `<p style="background: #fde2e1; padding: 8px 10px; border-radius: 4px;">🚨 <b>${digest.gaps.length} configured slot(s) not booked</b> - book them by hand or run <code>watch</code></p>`
+      : "";
+
+  const reservations =
+    digest.reservations.length === 0
+      ? `<p style="${MUTED}">No reservations this week.</p>`
+      : `<table style="border-collapse: collapse; width: 100%;">
+${digest.reservations.map(renderReservationRow).join("\n")}
+</table>`;
+  const planned = digest.planned.map(renderPlannedRow).join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 14px; color: #222; max-width: 720px;">
+<h2 style="margin-bottom: 4px;">🎾 Tennis Reservations - Week of ${escapeHtml(range)}</h2>
+${gapBanner}
+<h3>Confirmed reservations</h3>
+${reservations}
+<h3>Weekly plan</h3>
+<table style="border-collapse: collapse; width: 100%;">
+${planned || `<tr><td style="${MUTED}">No slots configured.</td></tr>`}
+</table>
+<p style="${MUTED}">📅 ${escapeHtml(nextRun ? `Next reservation attempt: ${nextRun}` : "No reservation attempt scheduled")}</p>
+</body>
+</html>
+`;
+}
+
+function renderReservationRow(r: Reservation): string {
+  return `<tr>
+<td style="${CELL} white-space: nowrap;">✅ ${escapeHtml(formatShortDate(r.date))}</td>
+<td style="${CELL}">${escapeHtml(r.courtName)}</td>
+<td style="${CELL} white-space: nowrap;">${escapeHtml(r.timeSlot)}</td>
+</tr>`;
+}
+
+function renderPlannedRow(p: PlannedSlot): string {
+  const highlight = p.status === "missing" ? " background: #fde2e1;" : "";
+  return `<tr style="vertical-align: top;${highlight}">
+<td style="${CELL} white-space: nowrap;">${STATUS_ICONS[p.status]} ${escapeHtml(formatShortDate(p.date))}</td>
+<td style="${CELL}">${escapeHtml(p.courtName)}</td>
+<td style="${CELL} white-space: nowrap;">${escapeHtml(p.timeSlot)}</td>
+<td style="${CELL}">${escapeHtml(describePlanned(p))}</td>
+</tr>`;
+}
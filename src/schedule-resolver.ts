@@ -2,32 +2,157 @@
  * Schedule ID Resolver
  *
  * Looks up schedule IDs based on court, day of week, and time slot
- * Uses the complete mapping extracted from mobile app API
+ * Uses the complete mapping extracted from mobile app API, or the regenerated
+ * mapping written by `sync-schedules --write` when that file exists
  */
 
+import * as fs from "fs";
+import * as path from "path";
 import {
   COURT1_SCHEDULE_IDS,
   COURT2_SCHEDULE_IDS,
-  getDayOfWeekName,
   type DayOfWeek,
+  type ScheduleMapping,
 } from "../schedule-ids-complete";
+import { getDayOfWeek, type CRDate } from "./time-cr";
+
+/**
+ * Regenerated mapping file (repo root; this module runs from dist/src/)
+ */
+export const SCHEDULE_IDS_FILE = path.join(
+  __dirname,
+  "..",
+  "..",
+  "schedule-ids.json",
+);
+
+export interface ScheduleIdsFile {
+  generatedAt: string;
+  courts: {
+    "5": ScheduleMapping;
+    "7": ScheduleMapping;
+  };
+}
+
+let loadedFile: ScheduleIdsFile | null | undefined;
+
+/**
+ * Load the regenerated mapping file once (null if it does not exist)
+ */
+export function loadScheduleIdsFile(): ScheduleIdsFile | null {
+  if (loadedFile !== undefined) {
+    return loadedFile;
+  }
+
+  if (!fs.existsSync(SCHEDULE_IDS_FILE)) {
+    loadedFile = null;
+    return loadedFile;
+  }
+
+  const parsed: unknown = JSON.parse(
+    fs.readFileSync(SCHEDULE_IDS_FILE, "utf8"),
+  );
+  const problems = validateScheduleIdsFile(parsed);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid schedule ID file ${SCHEDULE_IDS_FILE} (delete it to use the built-in tables): ` +
+        problems.slice(0, 5).join("; ") +
+        (problems.length > 5 ? ` (+${problems.length - 5} more)` : ""),
+    );
+  }
+
+  loadedFile = parsed as ScheduleIdsFile;
+  return loadedFile;
+}
+
+const WEEKDAYS: DayOfWeek[] = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+/**
+ * Check a schedule-ids.json payload: courts "5" and "7", each with every
+ * weekday (and nothing else), "HH:MM AM - HH:MM PM" slot keys and numeric
+ * schedule IDs
+ *
+ * @returns One line per problem (empty if valid)
+ */
+export function validateScheduleIdsFile(value: unknown): string[] {
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+  if (!isObject(value) || !isObject(value.courts)) {
+    return ['expected { "generatedAt", "courts": { "5", "7" } }'];
+  }
+
+  const problems: string[] = [];
+  for (const courtId of ["5", "7"]) {
+    const mapping = value.courts[courtId];
+    if (!isObject(mapping)) {
+      problems.push(`court ${courtId} missing`);
+      continue;
+    }
+
+    for (const day of Object.keys(mapping)) {
+      if (!WEEKDAYS.includes(day as DayOfWeek)) {
+        problems.push(`court ${courtId}: unknown day "${day}"`);
+      }
+    }
+    for (const day of WEEKDAYS) {
+      const slots = mapping[day];
+      if (!isObject(slots) || Object.keys(slots).length === 0) {
+        problems.push(`court ${courtId} ${day}: no slots`);
+        continue;
+      }
+      for (const [slot, id] of Object.entries(slots)) {
+        if (!/^\d{2}:\d{2} [AP]M - \d{2}:\d{2} [AP]M$/.test(slot)) {
+          problems.push(`court ${courtId} ${day}: bad slot "${slot}"`);
+        }
+        if (typeof id !== "string" || !/^\d+$/.test(id)) {
+          problems.push(
+            `court ${courtId} ${day} ${slot}: bad schedule ID ${JSON.stringify(id)}`,
+          );
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Get the schedule ID mapping for a court (regenerated file first, then the
+ * built-in tables from schedule-ids-complete.ts)
+ */
+export function getScheduleMapping(courtId: "5" | "7"): ScheduleMapping {
+  const file = loadScheduleIdsFile();
+  if (file) {
+    return file.courts[courtId];
+  }
+  return courtId === "5" ? COURT1_SCHEDULE_IDS : COURT2_SCHEDULE_IDS;
+}
 
 /**
  * Resolve schedule ID for a given court, date, and time slot
  *
  * @param courtId - '5' for Court 1, '7' for Court 2
- * @param targetDate - The date to book
+ * @param targetDate - The date to book (Costa Rica calendar date)
  * @param timeSlot - Time slot (e.g., "06:00 AM - 07:00 AM")
  * @returns Schedule ID string (e.g., "241")
  * @throws Error if no schedule ID found
  */
 export function resolveScheduleId(
   courtId: "5" | "7",
-  targetDate: Date,
+  targetDate: CRDate,
   timeSlot: string,
 ): string {
-  const dayName = getDayOfWeekName(targetDate);
-  const mapping = courtId === "5" ? COURT1_SCHEDULE_IDS : COURT2_SCHEDULE_IDS;
+  const dayName = getDayOfWeek(targetDate);
+  const mapping = getScheduleMapping(courtId);
 
   const scheduleId = mapping[dayName]?.[timeSlot];
 
@@ -49,7 +174,7 @@ export function isTimeSlotAvailable(
   dayOfWeek: DayOfWeek,
   timeSlot: string,
 ): boolean {
-  const mapping = courtId === "5" ? COURT1_SCHEDULE_IDS : COURT2_SCHEDULE_IDS;
+  const mapping = getScheduleMapping(courtId);
   return mapping[dayOfWeek]?.[timeSlot] !== undefined;
 }
 
@@ -60,6 +185,6 @@ export function getAvailableTimeSlots(
   courtId: "5" | "7",
   dayOfWeek: DayOfWeek,
 ): string[] {
-  const mapping = courtId === "5" ? COURT1_SCHEDULE_IDS : COURT2_SCHEDULE_IDS;
+  const mapping = getScheduleMapping(courtId);
   return Object.keys(mapping[dayOfWeek] || {});
 }
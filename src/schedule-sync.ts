@@ -0,0 +1,171 @@
+/**
+ * Schedule ID Sync
+ *
+ * Builds court schedule mappings from the live reservations_form data and
+ * compares them against the mapping currently used by schedule-resolver.ts
+ */
+
+import type { ScheduleMapping } from "../schedule-ids-complete";
+import type { ScheduleEntry } from "./mobile-api-client";
+
+export type ScheduleChangeKind = "added" | "removed" | "changed";
+
+export interface ScheduleChange {
+  kind: ScheduleChangeKind;
+  courtId: "5" | "7";
+  dayOfWeek: string;
+  timeSlot: string;
+  currentId?: string;
+  liveId?: string;
+}
+
+const DAY_ORDER = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+/**
+ * Group live schedule entries for one court into a ScheduleMapping
+ */
+export function buildScheduleMapping(
+  entries: ScheduleEntry[],
+  courtId: "5" | "7",
+): ScheduleMapping {
+  const mapping: ScheduleMapping = {};
+
+  for (const entry of entries) {
+    if (entry.areaId !== courtId) continue;
+    mapping[entry.dayOfWeek] ??= {};
+    mapping[entry.dayOfWeek][entry.timeSlot] = entry.scheduleId;
+  }
+
+  return sortScheduleMapping(mapping);
+}
+
+/**
+ * Return a copy with days in Monday..Sunday order and slots in time order
+ */
+export function sortScheduleMapping(mapping: ScheduleMapping): ScheduleMapping {
+  const sorted: ScheduleMapping = {};
+  const days = Object.keys(mapping).sort(
+    (a, b) => DAY_ORDER.indexOf(a) - DAY_ORDER.indexOf(b),
+  );
+
+  for (const day of days) {
+    sorted[day] = {};
+    const slots = Object.keys(mapping[day]).sort(
+      (a, b) => slotStartMinutes(a) - slotStartMinutes(b),
+    );
+    for (const slot of slots) {
+      sorted[day][slot] = mapping[day][slot];
+    }
+  }
+
+  return sorted;
+}
+
+/**
+ * Compare the current mapping of a court against the live one
+ */
+export function diffScheduleMappings(
+  courtId: "5" | "7",
+  current: ScheduleMapping,
+  live: ScheduleMapping,
+): ScheduleChange[] {
+  const changes: ScheduleChange[] = [];
+  const days = new Set([...Object.keys(current), ...Object.keys(live)]);
+
+  for (const dayOfWeek of DAY_ORDER.filter((d) => days.has(d))) {
+    const currentSlots = current[dayOfWeek] ?? {};
+    const liveSlots = live[dayOfWeek] ?? {};
+    const slots = [
+      ...new Set([...Object.keys(currentSlots), ...Object.keys(liveSlots)]),
+    ].sort((a, b) => slotStartMinutes(a) - slotStartMinutes(b));
+
+    for (const timeSlot of slots) {
+      const currentId = currentSlots[timeSlot];
+      const liveId = liveSlots[timeSlot];
+
+      if (currentId === liveId) continue;
+
+      changes.push({
+        kind: !currentId ? "added" : !liveId ? "removed" : "changed",
+        courtId,
+        dayOfWeek,
+        timeSlot,
+        currentId,
+        liveId,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * How many days the live mapping looks shifted by against the current one
+ * (e.g. 1 when the live Tuesday holds the current Monday's IDs), or 0
+ *
+ * A day-numbering mistake in the reservations_form parser (0=Sunday vs
+ * 0=Monday) moves the whole mapping by a day; reassigned IDs do not.
+ */
+export function detectDayShift(
+  current: ScheduleMapping,
+  live: ScheduleMapping,
+): number {
+  const matches = (shift: number) =>
+    DAY_ORDER.reduce((count, day, i) => {
+      const shifted = current[DAY_ORDER[(i - shift + 7) % 7]] ?? {};
+      return (
+        count +
+        Object.entries(live[day] ?? {}).filter(
+          ([slot, id]) => shifted[slot] === id,
+        ).length
+      );
+    }, 0);
+
+  let best = 0;
+  let bestCount = matches(0);
+  for (let shift = 1; shift < 7; shift++) {
+    const count = matches(shift);
+    if (count > bestCount) {
+      best = shift;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Format one change as a diff line (e.g. "~ Court 1 Monday 06:00 AM - 07:00 AM: 239 → 240")
+ */
+export function formatScheduleChange(change: ScheduleChange): string {
+  const court = change.courtId === "5" ? "Court 1" : "Court 2";
+  const where = `${court} ${change.dayOfWeek.padEnd(9)} ${change.timeSlot}`;
+
+  switch (change.kind) {
+    case "added":
+      return `+ ${where}: ${change.liveId}`;
+    case "removed":
+      return `- ${where}: ${change.currentId}`;
+    case "changed":
+      return `~ ${where}: ${change.currentId} → ${change.liveId}`;
+  }
+}
+
+/**
+ * Minutes since midnight for the start of a "06:00 AM - 07:00 AM" slot
+ */
+export function slotStartMinutes(timeSlot: string): number {
+  const match = timeSlot.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)/i);
+  if (!match) return Number.MAX_SAFE_INTEGER;
+
+  const hour = parseInt(match[1], 10) % 12;
+  const isPM = match[3].toUpperCase() === "PM";
+  return (hour + (isPM ? 12 : 0)) * 60 + parseInt(match[2], 10);
+}
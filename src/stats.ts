@@ -0,0 +1,185 @@
+/**
+ * Success-rate and latency analytics over the reservation history
+ */
+
+import { slotStartMinutes } from "./schedule-sync";
+import type { HistoryRecord } from "./history";
+
+// Slots lost at least this often (with enough attempts) are flagged
+const LOSING_MIN_ATTEMPTS = 3;
+const LOSING_TAKEN_RATE = 0.5;
+
+export interface LatencyStats {
+  samples: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  maxMs: number | null;
+}
+
+/**
+ * Aggregate of a group of attempts (a court, a weekday, or one slot)
+ */
+export interface GroupStats {
+  scope: "court" | "weekday" | "slot";
+  courtName: string | null;
+  dayOfWeek: string | null;
+  timeSlot: string | null;
+  attempts: number;
+  successes: number;
+  successRate: number; // 0..1
+  failures: Record<string, number>; // MessageType -> count (non-SUCCESS)
+  latency: LatencyStats;
+}
+
+export interface StatsReport {
+  runs: number;
+  attempts: number;
+  successRate: number;
+  failures: Record<string, number>;
+  latency: LatencyStats;
+  byCourt: GroupStats[];
+  byWeekday: GroupStats[];
+  bySlot: GroupStats[];
+  // Slots we keep losing to someone else (SLOT_TAKEN), worst first
+  losingSlots: GroupStats[];
+}
+
+const WEEKDAY_ORDER = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+/**
+ * Build the full report from history records
+ */
+export function computeStats(records: HistoryRecord[]): StatsReport {
+  const overall = summarize(records);
+
+  const byCourt = groupBy(records, (r) => r.courtName)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => toGroupStats("court", { courtName: key }, group));
+  const byWeekday = groupBy(records, (r) => r.dayOfWeek)
+    .sort(([a], [b]) => WEEKDAY_ORDER.indexOf(a) - WEEKDAY_ORDER.indexOf(b))
+    .map(([key, group]) => toGroupStats("weekday", { dayOfWeek: key }, group));
+  const bySlot = groupBy(
+    records,
+    (r) => `${r.courtName}|${r.dayOfWeek}|${r.timeSlot}`,
+  )
+    .map(([, group]) =>
+      toGroupStats(
+        "slot",
+        {
+          courtName: group[0].courtName,
+          dayOfWeek: group[0].dayOfWeek,
+          timeSlot: group[0].timeSlot,
+        },
+        group,
+      ),
+    )
+    .sort(
+      (a, b) =>
+        a.courtName!.localeCompare(b.courtName!) ||
+        WEEKDAY_ORDER.indexOf(a.dayOfWeek!) -
+          WEEKDAY_ORDER.indexOf(b.dayOfWeek!) ||
+        slotStartMinutes(a.timeSlot!) - slotStartMinutes(b.timeSlot!),
+    );
+
+  const losingSlots = bySlot
+    .filter(
+      (s) =>
+        s.attempts >= LOSING_MIN_ATTEMPTS && takenRate(s) >= LOSING_TAKEN_RATE,
+    )
+    .sort((a, b) => takenRate(b) - takenRate(a));
+
+  return {
+    runs: new Set(records.map((r) => r.runId)).size,
+    attempts: records.length,
+    successRate: overall.successRate,
+    failures: overall.failures,
+    latency: overall.latency,
+    byCourt,
+    byWeekday,
+    bySlot,
+    losingSlots,
+  };
+}
+
+/**
+ * Share of a group's attempts that found the slot already taken
+ */
+export function takenRate(s: GroupStats): number {
+  return s.attempts > 0 ? (s.failures.SLOT_TAKEN ?? 0) / s.attempts : 0;
+}
+
+/**
+ * Nearest-rank percentile of a list of numbers
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+function summarize(records: HistoryRecord[]) {
+  const successes = records.filter((r) => r.status === "SUCCESS").length;
+  const failures: Record<string, number> = {};
+  for (const r of records) {
+    if (r.status !== "SUCCESS") {
+      failures[r.status] = (failures[r.status] ?? 0) + 1;
+    }
+  }
+
+  // 0 means the request never went out (e.g. unresolvable schedule ID)
+  const latencies = records
+    .map((r) => r.apiCallMs)
+    .filter((ms): ms is number => ms !== null && ms > 0);
+
+  return {
+    successes,
+    successRate: records.length > 0 ? successes / records.length : 0,
+    failures,
+    latency: {
+      samples: latencies.length,
+      p50Ms: percentile(latencies, 50),
+      p95Ms: percentile(latencies, 95),
+      maxMs: latencies.length > 0 ? Math.max(...latencies) : null,
+    },
+  };
+}
+
+function toGroupStats(
+  scope: GroupStats["scope"],
+  keys: Partial<Pick<GroupStats, "courtName" | "dayOfWeek" | "timeSlot">>,
+  records: HistoryRecord[],
+): GroupStats {
+  const { successes, successRate, failures, latency } = summarize(records);
+  return {
+    scope,
+    courtName: keys.courtName ?? null,
+    dayOfWeek: keys.dayOfWeek ?? null,
+    timeSlot: keys.timeSlot ?? null,
+    attempts: records.length,
+    successes,
+    successRate,
+    failures,
+    latency,
+  };
+}
+
+function groupBy<T>(
+  items: T[],
+  key: (item: T) => string,
+): Array<[string, T[]]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return [...groups.entries()];
+}
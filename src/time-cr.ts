@@ -1,86 +1,171 @@
 /**
- * Costa Rica timezone utilities
+ * Costa Rica date and time utilities
  *
- * Provides accurate date/time calculations in Costa Rica timezone (UTC-6, no DST).
- * This fixes the timezone bug where the script was using system local time instead
- * of Costa Rica time, causing it to target dates 1 day too far ahead.
+ * Bookings are made for Costa Rica calendar dates (CRDate: year, month,
+ * day), converted to and from UTC instants (epoch ms) with Costa Rica's
+ * fixed UTC-6 offset (no DST since 1992). All arithmetic uses UTC fields
+ * only, so results do not depend on the host timezone (TZ).
  */
 
+import type { DayOfWeek } from "../schedule-ids-complete";
+
 export const CR_TZ = "America/Costa_Rica";
 
+// Costa Rica local time = UTC + this offset
+export const CR_UTC_OFFSET_MS = -6 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAYS_OF_WEEK: DayOfWeek[] = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * A calendar date in Costa Rica (no time of day, no timezone)
+ */
+export interface CRDate {
+  readonly year: number;
+  readonly month: number; // 1-12
+  readonly day: number; // 1-31
+}
+
+/**
+ * Build a CRDate, rejecting impossible dates (e.g. 2025-02-30)
+ */
+export function makeCRDate(year: number, month: number, day: number): CRDate {
+  const date = fromDayNumber(Date.UTC(year, month - 1, day) / DAY_MS);
+  if (
+    !Number.isInteger(year) ||
+    date.year !== year ||
+    date.month !== month ||
+    date.day !== day
+  ) {
+    throw new Error(`Invalid date: ${year}-${month}-${day}`);
+  }
+  return date;
+}
+
+/**
+ * Parse YYYY-MM-DD (or the unpadded YYYY-M-D the API uses) into a CRDate
+ */
+export function parseDateInCR(dateString: string): CRDate {
+  const match = dateString.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    throw new Error(`Invalid date "${dateString}" (expected YYYY-MM-DD)`);
+  }
+  return makeCRDate(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10),
+    parseInt(match[3], 10),
+  );
+}
+
+/**
+ * The Costa Rica calendar date containing an instant
+ */
+export function crDateFromInstant(ms: number): CRDate {
+  return fromDayNumber(Math.floor((ms + CR_UTC_OFFSET_MS) / DAY_MS));
+}
+
 /**
- * Get current time in Costa Rica timezone
+ * The instant (epoch ms) at which a Costa Rica date starts (00:00 CR)
  */
-export function nowInCR(): Date {
-  return new Date(new Date().toLocaleString("en-US", { timeZone: CR_TZ }));
+export function crMidnightMs(date: CRDate): number {
+  return toDayNumber(date) * DAY_MS - CR_UTC_OFFSET_MS;
 }
 
 /**
- * Get midnight (00:00:00) in Costa Rica timezone for "today"
- * This is the corrected version that should be used instead of:
- *   const today = new Date(); today.setHours(0, 0, 0, 0);
+ * Today's date in Costa Rica (or the CR date containing atMs)
  */
-export function crMidnight(): Date {
-  const d = nowInCR();
-  d.setHours(0, 0, 0, 0);
-  return d;
+export function todayCR(atMs: number = Date.now()): CRDate {
+  return crDateFromInstant(atMs);
 }
 
 /**
- * Parse a date string (YYYY-MM-DD) as midnight in Costa Rica timezone
- * This fixes the issue where new Date('2025-11-12') creates UTC midnight,
- * which is Nov 11 6PM Costa Rica time (off by 1 day).
+ * Add (or subtract) calendar days
  */
-export function parseDateInCR(dateString: string): Date {
-  // Parse YYYY-MM-DD directly (format: "2025-11-12")
-  const [year, month, day] = dateString.split("-").map((s) => parseInt(s, 10));
-  // Create date object with year, month (0-indexed), day at midnight
-  // This creates a date in the local timezone, which matches crMidnight() behavior
-  return new Date(year, month - 1, day, 0, 0, 0, 0);
+export function addDaysCR(date: CRDate, days: number): CRDate {
+  return fromDayNumber(toDayNumber(date) + days);
 }
 
 /**
- * Add days to a date (preserves time)
+ * Days from a to b (negative if b is before a)
  */
-export function addDaysCR(base: Date, days: number): Date {
-  const result = new Date(base);
-  result.setDate(result.getDate() + days);
-  return result;
+export function daysBetweenCR(a: CRDate, b: CRDate): number {
+  return toDayNumber(b) - toDayNumber(a);
 }
 
 /**
  * Format date as YYYY-MM-DD
  */
-export function ymdCR(date: Date): string {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  const d = String(date.getDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
+export function ymdCR(date: CRDate): string {
+  const m = String(date.month).padStart(2, "0");
+  const d = String(date.day).padStart(2, "0");
+  return `${date.year}-${m}-${d}`;
 }
 
 /**
  * Format date for URL parameter (used by the website)
  * Format: YYYY-M-D (no padding)
  */
-export function formatDateForUrl(date: Date): string {
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  return `${year}-${month}-${day}`;
+export function formatDateForUrl(date: CRDate): string {
+  return `${date.year}-${date.month}-${date.day}`;
 }
 
 /**
  * Get day of week name
  */
-export function getDayOfWeek(date: Date): string {
-  const days = [
-    "Sunday",
-    "Monday",
-    "Tuesday",
-    "Wednesday",
-    "Thursday",
-    "Friday",
-    "Saturday",
-  ];
-  return days[date.getDay()];
+export function getDayOfWeek(date: CRDate): DayOfWeek {
+  // Day 0 (1970-01-01) was a Thursday
+  return DAYS_OF_WEEK[(((toDayNumber(date) + 4) % 7) + 7) % 7];
+}
+
+/**
+ * Format an instant as Costa Rica wall-clock time: "YYYY-MM-DD HH:MM:SS"
+ */
+export function formatInstantCR(ms: number): string {
+  const date = crDateFromInstant(ms);
+  const time = new Date(ms - crMidnightMs(date)).toISOString().slice(11, 19);
+  return `${ymdCR(date)} ${time}`;
+}
+
+/**
+ * Get the epoch milliseconds of the Costa Rica midnight that starts the
+ * next booking window
+ *
+ * @param nowMs - Current epoch ms (defaults to Date.now())
+ * @param lateToleranceMs - If midnight passed less than this long ago, return
+ *   that midnight (fire immediately) instead of the next one
+ */
+export function nextMidnightCRMs(
+  nowMs: number = Date.now(),
+  lateToleranceMs: number = 60_000,
+): number {
+  const lastMidnight = crMidnightMs(crDateFromInstant(nowMs));
+
+  return nowMs - lastMidnight < lateToleranceMs
+    ? lastMidnight
+    : lastMidnight + DAY_MS;
+}
+
+/**
+ * Days since 1970-01-01 (UTC fields only, independent of the host TZ)
+ */
+function toDayNumber(date: CRDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / DAY_MS;
+}
+
+function fromDayNumber(dayNumber: number): CRDate {
+  const d = new Date(dayNumber * DAY_MS);
+  return Object.freeze({
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+  });
 }
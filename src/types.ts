@@ -2,13 +2,32 @@
  * Shared TypeScript type definitions for tennis reservation system
  */
 
+import type { MessageType } from "./message-classifier";
+import type { TriggerResult } from "./midnight-trigger";
+import type { ClockCalibration } from "./clock-calibration";
+import type { LogLevel } from "./logger";
+
 export interface CourtConfig {
   areaId: string;
   name: string;
   daysAhead: number;
   slots: Record<string, string>;
+  // Ordered alternatives per weekday, tried in order when the slot is taken
+  fallbacks?: Record<string, FallbackOption[]>;
+}
+
+/**
+ * An alternative to the preferred slot. Omitted fields default to the
+ * preferred court / time slot, so { court: "court2" } means "same time on
+ * the other court".
+ */
+export interface FallbackOption {
+  court?: CourtKey;
+  time?: string;
 }
 
+export type CourtKey = "court1" | "court2";
+
 export type ErrorType =
   | "NOT_YET_AVAILABLE"
   | "SLOT_TAKEN"
@@ -30,11 +49,54 @@ export interface ReservationResult {
   date: string;
   time: string;
   error?: string;
-  telemetry?: {
-    unlockMs: number;
-    formReadyMs: number;
-    submitMs: number;
-  };
+  telemetry?: RequestTiming;
+}
+
+/**
+ * Per-request HTTP timings (ms from request start). Phases that did not
+ * happen, e.g. DNS/connect/TLS on a reused keep-alive socket, are 0.
+ */
+export interface RequestTiming {
+  dnsMs: number;
+  connectMs: number;
+  tlsMs: number;
+  ttfbMs: number; // Time to first byte (response headers)
+  totalMs: number;
+  reusedSocket: boolean;
+}
+
+/**
+ * Final result of one court's reservation attempt in a run
+ */
+export interface ReservationOutcome {
+  courtName: string;
+  areaId?: string;
+  scheduleId?: string; // Unset if it could not be resolved
+  status: MessageType;
+  friendlyMessage: string;
+  rawMessage: string;
+  date?: string;
+  time?: string;
+  apiCallMs?: number; // API call latency in milliseconds
+  preference?: number; // Which candidate produced this outcome (1 = preferred)
+  burstAttempts?: number; // Submissions sent for this candidate
+  telemetry?: RequestTiming; // HTTP timings of the reported submission
+  unconfirmed?: boolean; // A failed write may have booked it; the list could not tell
+  tried?: AttemptSummary[]; // Every candidate attempted, in order
+}
+
+export interface AttemptSummary {
+  courtName: string;
+  time: string;
+  status: MessageType;
+}
+
+/**
+ * Trigger result plus the server clock offset it was aimed with
+ */
+export interface MidnightTrigger extends TriggerResult {
+  clockOffsetMs: number; // server - local; targetMs + this = server midnight
+  calibration: ClockCalibration | null;
 }
 
 export interface FrameData {
@@ -55,6 +117,95 @@ export interface AppConfig {
     court1: CourtConfig;
     court2: CourtConfig;
   };
+  timing: TimingConfig;
+  // Where run results and alerts are delivered (default: Resend email)
+  notifiers: NotifierConfig[];
+  logging: LoggingConfig;
+  api: ApiConfig;
+  watch: WatchConfig;
+  daemon: DaemonConfig;
+}
+
+export interface DaemonConfig {
+  // Start reserve.js this long before each booking midnight, leaving time
+  // for preflight, clock calibration and connection warm-up
+  leadMs: number;
+}
+
+/**
+ * Polling for the watch command (grabbing a slot after a cancellation)
+ */
+export interface WatchConfig {
+  // Time between booking attempts for each watched slot
+  intervalMs: number;
+  // Random +/- spread added to every interval, so polls are not periodic
+  jitterMs: number;
+}
+
+/**
+ * Deadlines and retry policy for SAS API requests
+ */
+export interface ApiConfig {
+  // Deadline for reads (preflight, list, schedules, clock probes)
+  timeoutMs: number;
+  // Deadline for booking / cancel submissions
+  bookingTimeoutMs: number;
+  // Re-sends of a failed read (network error, timeout, 5xx/429, garbled
+  // response), after retryBaseDelayMs, doubling each time
+  retries: number;
+  retryBaseDelayMs: number;
+  // Immediate re-sends of a booking / cancel submission, only when it never
+  // reached the server (DNS failure, connection refused); a timed-out
+  // submission may have booked the slot and is never re-sent
+  bookingRetries: number;
+}
+
+export interface LoggingConfig {
+  // Minimum level written to console and file (LOG_LEVEL env overrides)
+  level: LogLevel;
+  // Delete daily log files older than this many days (0 = keep forever)
+  retentionDays: number;
+}
+
+/**
+ * One notification channel. Every channel receives every notification;
+ * `retries` (default 2) bounds re-sends after a retryable failure.
+ */
+export type NotifierConfig =
+  | { type: "resend"; retries?: number }
+  | {
+      type: "smtp";
+      host: string;
+      port: number;
+      secure?: boolean; // Implicit TLS (port 465)
+      startTls?: boolean; // Upgrade with STARTTLS (port 587)
+      username?: string; // Password comes from SMTP_PASSWORD
+      retries?: number;
+    }
+  | {
+      type: "webhook";
+      url: string;
+      headers?: Record<string, string>;
+      retries?: number;
+    }
+  | { type: "console"; retries?: number }
+  | { type: "file"; path: string; retries?: number };
+
+export interface TimingConfig {
+  // Fire the booking requests this many ms relative to midnight
+  // (negative = early, e.g. -150 to cover network latency)
+  fireOffsetMs: number;
+  // Estimate the SAS server's clock offset before midnight and aim at
+  // server midnight instead of local midnight
+  calibrateClock: boolean;
+  calibrationSamples: number;
+  // Submit the preferred slot this many times, spaced apart and centred on
+  // the fire time (the first one goes out early); the first non-retryable
+  // result stops it
+  burstAttempts: number;
+  burstSpacingMs: number;
+  // Open keep-alive connections this many ms before the fire time (0 = off)
+  warmupLeadMs: number;
 }
 
 export interface Args {
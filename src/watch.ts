@@ -0,0 +1,85 @@
+/**
+ * Watch targets: slots to grab when someone cancels
+ *
+ * A target is a court, date and time slot, written on the command line as
+ * "<court> <YYYY-MM-DD> <time slot>" (e.g. "1 2025-11-19 06:00 AM - 07:00 AM").
+ * The watch command re-submits the booking for every open target at a
+ * jittered interval until it succeeds or the slot starts.
+ */
+
+import { resolveScheduleId } from "./schedule-resolver";
+import { slotStartMinutes } from "./schedule-sync";
+import { crMidnightMs, parseDateInCR, ymdCR, type CRDate } from "./time-cr";
+import { courtArgToAreaId } from "./cli-args";
+import type { Reservation } from "./mobile-api-client";
+
+export interface WatchTarget {
+  areaId: "5" | "7";
+  date: CRDate;
+  timeSlot: string; // Format: "06:00 AM - 07:00 AM"
+  scheduleId: string;
+  startsAtMs: number; // The slot's start; watching stops then
+}
+
+const TARGET_PATTERN = /^\s*(\S+)\s+(\d{4}-\d{1,2}-\d{1,2})\s+(.+?)\s*$/;
+
+/**
+ * Parse and resolve "<court> <YYYY-MM-DD> <time slot>"
+ *
+ * @throws Error if the court, date or slot is invalid
+ */
+export function parseWatchTarget(spec: string): WatchTarget {
+  const match = spec.match(TARGET_PATTERN);
+  if (!match) {
+    throw new Error(
+      `Invalid target "${spec}" (expected "<court> <YYYY-MM-DD> <time slot>")`,
+    );
+  }
+
+  const areaId = courtArgToAreaId(match[1]);
+  if (!areaId) {
+    throw new Error(`Invalid target "${spec}": court must be 1 or 2`);
+  }
+
+  const date = parseDateInCR(match[2]);
+  const timeSlot = match[3];
+  return {
+    areaId,
+    date,
+    timeSlot,
+    scheduleId: resolveScheduleId(areaId, date, timeSlot),
+    startsAtMs: slotStartMs(date, timeSlot),
+  };
+}
+
+/**
+ * Epoch ms at which a slot starts on a Costa Rica date
+ */
+export function slotStartMs(date: CRDate, timeSlot: string): number {
+  return crMidnightMs(date) + slotStartMinutes(timeSlot) * 60 * 1000;
+}
+
+/**
+ * Whether a reservation of the account is for a target's slot
+ */
+export function isTargetReservation(
+  reservation: Reservation,
+  target: WatchTarget,
+): boolean {
+  return (
+    reservation.areaId === target.areaId &&
+    reservation.date === ymdCR(target.date) &&
+    reservation.scheduleId === target.scheduleId
+  );
+}
+
+/**
+ * Delay before the next poll: the interval plus or minus up to jitterMs
+ */
+export function nextPollDelayMs(
+  intervalMs: number,
+  jitterMs: number,
+  random: () => number = Math.random,
+): number {
+  return Math.max(0, Math.round(intervalMs + (random() * 2 - 1) * jitterMs));
+}
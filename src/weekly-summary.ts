@@ -0,0 +1,209 @@
+/**
+ * Weekly upcoming-reservations digest
+ *
+ * Matches the account's reservations (functionality.php?fn=reservations)
+ * against the configured weekday slots for the coming week, so slots the
+ * midnight runs did not get can be fixed by hand before the week starts.
+ */
+
+import { getBookingCandidates } from "./booking-candidates";
+import { resolveScheduleId } from "./schedule-resolver";
+import { slotStartMinutes } from "./schedule-sync";
+import { slotStartMs } from "./watch";
+import {
+  addDaysCR,
+  crDateFromInstant,
+  daysBetweenCR,
+  getDayOfWeek,
+  parseDateInCR,
+  ymdCR,
+  type CRDate,
+} from "./time-cr";
+import type { Reservation } from "./mobile-api-client";
+import type { AppConfig, CourtKey } from "./types";
+
+/**
+ * How a configured slot on one day of the week turned out
+ *
+ * - booked: the configured slot is reserved
+ * - fallback: one of the day's fallbacks is reserved instead
+ * - missing: nothing reserved (a gap to fix by hand)
+ * - not-open: the booking window has not opened yet (a midnight run will try)
+ * - past: nothing reserved, but the slot has already started (too late to fix)
+ */
+export type PlannedSlotStatus =
+  | "booked"
+  | "fallback"
+  | "missing"
+  | "not-open"
+  | "past";
+
+export interface PlannedSlot {
+  court: CourtKey;
+  courtName: string;
+  date: string; // YYYY-MM-DD
+  dayOfWeek: string;
+  timeSlot: string; // The configured slot
+  status: PlannedSlotStatus;
+  reservation: Reservation | null; // What covers it (booked / fallback)
+}
+
+export interface WeeklyDigest {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  // Every reservation on the configured courts in the week, soonest first
+  reservations: Reservation[];
+  planned: PlannedSlot[];
+  gaps: PlannedSlot[]; // planned slots with status "missing"
+}
+
+/**
+ * Build the digest for `days` days starting at `from`
+ *
+ * @param nowMs - When the digest is made (for booking windows and slots
+ *   that have already started)
+ */
+export function buildWeeklyDigest(
+  config: AppConfig,
+  reservations: Reservation[],
+  from: CRDate,
+  days: number = 7,
+  nowMs: number = Date.now(),
+): WeeklyDigest {
+  const today = crDateFromInstant(nowMs);
+  const to = addDaysCR(from, days - 1);
+  const courtAreaIds = [
+    config.courts.court1.areaId,
+    config.courts.court2.areaId,
+  ];
+  const inWeek = reservations
+    .filter(
+      (r) =>
+        courtAreaIds.includes(r.areaId) &&
+        r.date >= ymdCR(from) &&
+        r.date <= ymdCR(to),
+    )
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        slotStartMinutes(a.timeSlot) - slotStartMinutes(b.timeSlot) ||
+        a.courtName.localeCompare(b.courtName),
+    );
+
+  const planned: PlannedSlot[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDaysCR(from, i);
+    const dayOfWeek = getDayOfWeek(date);
+
+    for (const key of ["court1", "court2"] as const) {
+      const court = config.courts[key];
+      const timeSlot = court.slots[dayOfWeek];
+      if (!timeSlot) continue;
+
+      // The preferred slot first, then the day's fallbacks in order
+      let status: PlannedSlotStatus = "missing";
+      let reservation: Reservation | null = null;
+      for (const candidate of getBookingCandidates(
+        config,
+        key,
+        dayOfWeek,
+        timeSlot,
+      )) {
+        reservation = findReservation(
+          inWeek,
+          candidate.court.areaId,
+          date,
+          candidate.timeSlot,
+        );
+        if (reservation) {
+          status = candidate.preference === 1 ? "booked" : "fallback";
+          break;
+        }
+      }
+      if (!reservation && slotStartMs(date, timeSlot) <= nowMs) {
+        status = "past";
+      } else if (!reservation && daysBetweenCR(today, date) > court.daysAhead) {
+        status = "not-open";
+      }
+
+      planned.push({
+        court: key,
+        courtName: court.name,
+        date: ymdCR(date),
+        dayOfWeek,
+        timeSlot,
+        status,
+        reservation,
+      });
+    }
+  }
+
+  return {
+    from: ymdCR(from),
+    to: ymdCR(to),
+    reservations: inWeek,
+    planned,
+    gaps: planned.filter((p) => p.status === "missing"),
+  };
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * "Oct 14-20", or "Oct 28 - Nov 3" across months
+ */
+export function formatWeekRange(from: string, to: string): string {
+  const a = parseDateInCR(from);
+  const b = parseDateInCR(to);
+  return a.month === b.month
+    ? `${MONTHS[a.month - 1]} ${a.day}-${b.day}`
+    : `${MONTHS[a.month - 1]} ${a.day} - ${MONTHS[b.month - 1]} ${b.day}`;
+}
+
+/**
+ * "Tue Oct 15"
+ */
+export function formatShortDate(ymd: string): string {
+  const date = parseDateInCR(ymd);
+  return `${getDayOfWeek(date).slice(0, 3)} ${MONTHS[date.month - 1]} ${date.day}`;
+}
+
+/**
+ * The reservation for a slot, matched by schedule ID like the watcher does:
+ * the list's slot labels need not read exactly like the configured ones
+ */
+function findReservation(
+  reservations: Reservation[],
+  areaId: string,
+  date: CRDate,
+  timeSlot: string,
+): Reservation | null {
+  let scheduleId: string;
+  try {
+    scheduleId = resolveScheduleId(areaId as "5" | "7", date, timeSlot);
+  } catch {
+    // Not in the schedule tables, so never booked by us
+    return null;
+  }
+  return (
+    reservations.find(
+      (r) =>
+        r.areaId === areaId &&
+        r.date === ymdCR(date) &&
+        r.scheduleId === scheduleId,
+    ) ?? null
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Booking: burst results reconciled with the reservation list
+ *
+ * A burst submission that times out after the server booked the slot makes
+ * the next submission report SLOT_TAKEN for our own booking. That must not
+ * send the run on to a fallback (two courts booked, "failed" email).
+ */
+
+import { describe, expect, it } from "vitest";
+import { reserveCourt, reserveWithFallbacks } from "../src/booking";
+import { TimeoutError } from "../src/api-errors";
+import { Logger } from "../src/logger";
+import { resolveScheduleId } from "../src/schedule-resolver";
+import { makeCRDate, ymdCR } from "../src/time-cr";
+import type { BookingCandidate } from "../src/booking-candidates";
+import type {
+  MobileAPIClient,
+  Reservation,
+  ReservationParams,
+} from "../src/mobile-api-client";
+import type { CourtConfig, ReservationOutcome } from "../src/types";
+
+const SLOT_TAKEN_MESSAGE =
+  "Ya existen otras reservaciones para el horario seleccionado.";
+const SUCCESS_MESSAGE =
+  "Su reservación se ha realizado con éxito y ya se encuentra aprobada.";
+
+const DATE = makeCRDate(2025, 11, 19); // Wednesday
+const TIME_SLOT = "06:00 AM - 07:00 AM";
+
+const COURT1: CourtConfig = {
+  areaId: "5",
+  name: "Cancha de Tenis 1",
+  daysAhead: 9,
+  slots: {},
+};
+const COURT2: CourtConfig = {
+  areaId: "7",
+  name: "Cancha de Tenis 2",
+  daysAhead: 8,
+  slots: {},
+};
+
+const CANDIDATES: BookingCandidate[] = [
+  { court: COURT1, timeSlot: TIME_SLOT, preference: 1 },
+  { court: COURT2, timeSlot: TIME_SLOT, preference: 2 },
+];
+
+const BURST = { burstAttempts: 3, burstSpacingMs: 5 };
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A client whose first submission times out after booking the slot; every
+ * later submission for that slot reports SLOT_TAKEN
+ */
+function timedOutBookingClient(options: {
+  listed: boolean;
+  listFails?: boolean;
+}) {
+  const submitted: ReservationParams[] = [];
+  const own: Reservation = {
+    reservationId: "9001",
+    areaId: "5",
+    courtName: COURT1.name,
+    date: ymdCR(DATE),
+    scheduleId: resolveScheduleId("5", DATE, TIME_SLOT),
+    timeSlot: TIME_SLOT,
+    status: "Confirmada",
+  };
+
+  const client = {
+    async createReservation(params: ReservationParams) {
+      submitted.push(params);
+      if (params.area === "5" && submitted.length === 1) {
+        await delay(30);
+        throw new TimeoutError(30, false);
+      }
+      if (params.area === "5") {
+        return { success: false, message: SLOT_TAKEN_MESSAGE, rawResponse: {} };
+      }
+      return { success: true, message: SUCCESS_MESSAGE, rawResponse: {} };
+    },
+    async listReservations() {
+      if (options.listFails) {
+        throw new TimeoutError(30, false);
+      }
+      return options.listed ? [own] : [];
+    },
+  } as unknown as MobileAPIClient;
+
+  return { client, submitted };
+}
+
+const logger = Logger.create({ runId: "test", console: false });
+
+describe("reserveWithFallbacks after a timed-out burst submission", () => {
+  it("reports SUCCESS and books no fallback when the slot is listed", async () => {
+    const { client, submitted } = timedOutBookingClient({ listed: true });
+    const outcomes: ReservationOutcome[] = [];
+
+    const outcome = await reserveWithFallbacks(
+      client,
+      CANDIDATES,
+      DATE,
+      BURST,
+      logger,
+      (o) => outcomes.push(o),
+    );
+
+    expect(submitted.map((p) => p.area)).toEqual(["5", "5"]);
+    expect(outcome.status).toBe("SUCCESS");
+    expect(outcome.courtName).toBe(COURT1.name);
+    expect(outcome.friendlyMessage).toContain(
+      "confirmed in the reservation list",
+    );
+    expect(outcomes).toHaveLength(1);
+  });
+
+  it("falls back when the reservation list does not hold the slot", async () => {
+    const { client, submitted } = timedOutBookingClient({ listed: false });
+
+    const outcome = await reserveWithFallbacks(
+      client,
+      CANDIDATES,
+      DATE,
+      BURST,
+      logger,
+    );
+
+    expect(submitted.map((p) => p.area)).toEqual(["5", "5", "7"]);
+    expect(outcome.status).toBe("SUCCESS");
+    expect(outcome.courtName).toBe(COURT2.name);
+    expect(outcome.tried?.map((t) => t.status)).toEqual([
+      "SLOT_TAKEN",
+      "SUCCESS",
+    ]);
+  });
+
+  it("marks the outcome unconfirmed when the list cannot be read", async () => {
+    const { client } = timedOutBookingClient({ listed: true, listFails: true });
+    const outcomes: ReservationOutcome[] = [];
+
+    await reserveWithFallbacks(client, CANDIDATES, DATE, BURST, logger, (o) =>
+      outcomes.push(o),
+    );
+
+    expect(outcomes[0].status).toBe("SLOT_TAKEN");
+    expect(outcomes[0].unconfirmed).toBe(true);
+  });
+});
+
+describe("reserveCourt burst", () => {
+  it("stops waiting for the next send slot once a submission succeeds", async () => {
+    const submitted: ReservationParams[] = [];
+    const client = {
+      async createReservation(params: ReservationParams) {
+        submitted.push(params);
+        return { success: true, message: SUCCESS_MESSAGE, rawResponse: {} };
+      },
+    } as unknown as MobileAPIClient;
+
+    const startedAt = Date.now();
+    const outcome = await reserveCourt(
+      client,
+      COURT1,
+      DATE,
+      TIME_SLOT,
+      logger,
+      {
+        attempts: 3,
+        spacingMs: 500,
+      },
+    );
+
+    expect(outcome.status).toBe("SUCCESS");
+    expect(submitted).toHaveLength(1);
+    expect(Date.now() - startedAt).toBeLessThan(250);
+  });
+});
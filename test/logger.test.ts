@@ -0,0 +1,60 @@
+/**
+ * Logger: daily files for processes that outlive a day, and level names
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Logger, isLogLevel } from "../src/logger";
+
+describe("Logger with dailyDir", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "logger-test-"));
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("moves to the next day's file at CR midnight, children included", () => {
+    // 23:59 in Costa Rica (UTC-6)
+    vi.setSystemTime(new Date("2025-11-20T05:59:00Z"));
+    const logger = Logger.create({
+      runId: "test",
+      dailyDir: dir,
+      console: false,
+    });
+    const child = logger.child({ court: "Court 1" });
+    logger.info("before midnight");
+
+    vi.setSystemTime(new Date("2025-11-20T06:01:00Z"));
+    child.info("after midnight");
+    logger.close();
+
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      "reservation-2025-11-19.log",
+      "reservation-2025-11-20.log",
+    ]);
+    const read = (day: string) =>
+      fs.readFileSync(path.join(dir, `reservation-${day}.log`), "utf8");
+    expect(read("2025-11-19")).toContain("before midnight");
+    expect(read("2025-11-20")).toContain("after midnight");
+    expect(logger.currentFile()).toBe(
+      path.join(dir, "reservation-2025-11-20.log"),
+    );
+  });
+});
+
+describe("isLogLevel", () => {
+  it("accepts the level names only", () => {
+    expect(isLogLevel("warn")).toBe(true);
+    expect(isLogLevel("verbose")).toBe(false);
+    expect(isLogLevel("toString")).toBe(false);
+    expect(isLogLevel("constructor")).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Message classifier against the corpus of server responses
+ *
+ * Runs every MESSAGE_CORPUS entry through classifyMessage (what
+ * `npm run classify -- --check` does), plus the pattern-order and
+ * verified-type rules the booking path relies on.
+ */
+
+import { describe, expect, it } from "vitest";
+import { MESSAGE_CORPUS } from "../src/message-corpus";
+import {
+  classifyMessage,
+  getMessageTypeInfo,
+  getStatusIcon,
+  type MessageType,
+} from "../src/message-classifier";
+
+describe("classifyMessage", () => {
+  it.each(MESSAGE_CORPUS.map((e) => [e.type, e.source, e.message] as const))(
+    "classifies a %s message (%s): %s",
+    (type, _source, message) => {
+      expect(classifyMessage(message).type).toBe(type);
+    },
+  );
+
+  it("checks cancellations before SUCCESS, which shares their wording", () => {
+    expect(
+      classifyMessage("La cancelación se ha realizado con éxito.").type,
+    ).toBe("CANCELLED");
+    expect(
+      classifyMessage(
+        "Su reservación se ha realizado con éxito y ya se encuentra aprobada.",
+      ).type,
+    ).toBe("SUCCESS");
+  });
+
+  it("classifies an empty or unrecognized response as UNKNOWN", () => {
+    expect(classifyMessage("").type).toBe("UNKNOWN");
+    expect(classifyMessage("Respuesta inesperada del servidor").type).toBe(
+      "UNKNOWN",
+    );
+  });
+});
+
+describe("verified message types", () => {
+  const productionTypes = new Set<MessageType>(
+    MESSAGE_CORPUS.filter((e) => e.source === "production").map((e) => e.type),
+  );
+  // UNKNOWN is the no-match fallback, not a pattern to verify
+  const corpusTypes = [...new Set(MESSAGE_CORPUS.map((e) => e.type))].filter(
+    (type) => type !== "UNKNOWN",
+  );
+
+  it.each(corpusTypes)(
+    "%s is verified only with a production message",
+    (type) => {
+      expect(getMessageTypeInfo(type).verified).toBe(productionTypes.has(type));
+    },
+  );
+
+  it.each(corpusTypes.filter((t) => !productionTypes.has(t)))(
+    "unverified %s never ends a run",
+    (type) => {
+      expect(getMessageTypeInfo(type).terminal).toBe(false);
+    },
+  );
+});
+
+describe("a type this version does not know", () => {
+  // e.g. a status read back from a hand-edited history file
+  const unknown = "DOUBLE_BOOKED" as MessageType;
+
+  it("gets UNKNOWN's info and icon", () => {
+    expect(getMessageTypeInfo(unknown)).toEqual(getMessageTypeInfo("UNKNOWN"));
+    expect(getStatusIcon(unknown)).toBe(getStatusIcon("UNKNOWN"));
+  });
+
+  it("does not pick up inherited object keys", () => {
+    const inherited = "constructor" as MessageType;
+    expect(getMessageTypeInfo(inherited)).toEqual(
+      getMessageTypeInfo("UNKNOWN"),
+    );
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Schedule ID sync: the checks that keep a misparsed reservations_form out
+ * of schedule-ids.json
+ */
+
+import { describe, expect, it } from "vitest";
+import { detectDayShift } from "../src/schedule-sync";
+import { validateScheduleIdsFile } from "../src/schedule-resolver";
+import {
+  COURT1_SCHEDULE_IDS,
+  COURT2_SCHEDULE_IDS,
+  type ScheduleMapping,
+} from "../schedule-ids-complete";
+
+const DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+/**
+ * The mapping with every day's slots moved `shift` days later (what a
+ * 0=Sunday vs 0=Monday mix-up produces)
+ */
+function shiftDays(mapping: ScheduleMapping, shift: number): ScheduleMapping {
+  const shifted: ScheduleMapping = {};
+  DAYS.forEach((day, i) => {
+    shifted[DAYS[(i + shift) % 7]] = { ...mapping[day] };
+  });
+  return shifted;
+}
+
+describe("detectDayShift", () => {
+  it("is 0 for the same mapping", () => {
+    expect(detectDayShift(COURT1_SCHEDULE_IDS, COURT1_SCHEDULE_IDS)).toBe(0);
+  });
+
+  it.each([1, 3, 6])("detects days shifted by %i", (shift) => {
+    expect(
+      detectDayShift(
+        COURT1_SCHEDULE_IDS,
+        shiftDays(COURT1_SCHEDULE_IDS, shift),
+      ),
+    ).toBe(shift);
+  });
+
+  it("is 0 when IDs were reassigned rather than moved", () => {
+    const renumbered: ScheduleMapping = {};
+    for (const [day, slots] of Object.entries(COURT1_SCHEDULE_IDS)) {
+      renumbered[day] = Object.fromEntries(
+        Object.entries(slots).map(([slot, id]) => [
+          slot,
+          String(Number(id) + 1000),
+        ]),
+      );
+    }
+    expect(detectDayShift(COURT1_SCHEDULE_IDS, renumbered)).toBe(0);
+  });
+});
+
+describe("validateScheduleIdsFile", () => {
+  const valid = {
+    generatedAt: "2025-11-10T12:00:00.000Z",
+    courts: { "5": COURT1_SCHEDULE_IDS, "7": COURT2_SCHEDULE_IDS },
+  };
+
+  it("accepts the built-in tables", () => {
+    expect(validateScheduleIdsFile(valid)).toEqual([]);
+  });
+
+  it("rejects a missing weekday", () => {
+    const { Sunday: _, ...withoutSunday } = COURT1_SCHEDULE_IDS;
+    expect(
+      validateScheduleIdsFile({
+        ...valid,
+        courts: { ...valid.courts, "5": withoutSunday },
+      }),
+    ).toEqual(["court 5 Sunday: no slots"]);
+  });
+
+  it("rejects unknown days, malformed slots and non-numeric IDs", () => {
+    const courts = {
+      ...valid.courts,
+      "7": {
+        ...COURT2_SCHEDULE_IDS,
+        Lunes: { "06:00 AM - 07:00 AM": "1" },
+        Monday: { "6:00 AM - 7:00 AM": "239", "07:00 AM - 08:00 AM": "x1" },
+      },
+    };
+    expect(validateScheduleIdsFile({ ...valid, courts })).toEqual([
+      'court 7: unknown day "Lunes"',
+      'court 7 Monday: bad slot "6:00 AM - 7:00 AM"',
+      'court 7 Monday 07:00 AM - 08:00 AM: bad schedule ID "x1"',
+    ]);
+  });
+
+  it("rejects a payload without both courts", () => {
+    expect(validateScheduleIdsFile(null)).toHaveLength(1);
+    expect(
+      validateScheduleIdsFile({ courts: { "5": COURT1_SCHEDULE_IDS } }),
+    ).toEqual(["court 7 missing"]);
+  });
+});
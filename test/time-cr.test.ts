@@ -0,0 +1,287 @@
+/**
+ * CRDate model: property tests under several host timezones
+ *
+ * Each property is checked against Intl's America/Costa_Rica calendar (an
+ * oracle independent of the UTC-field arithmetic in src/time-cr.ts), with
+ * process.env.TZ switched between zones on both sides of UTC, half-hour
+ * zones and zones with DST. Dates are biased towards month ends, year ends
+ * and leap days.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  addDaysCR,
+  crDateFromInstant,
+  crMidnightMs,
+  daysBetweenCR,
+  getDayOfWeek,
+  makeCRDate,
+  nextMidnightCRMs,
+  ymdCR,
+  type CRDate,
+} from "../src/time-cr";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const TIMEZONES = [
+  "UTC",
+  "America/Costa_Rica",
+  "America/New_York", // DST
+  "Pacific/Kiritimati", // UTC+14: a day ahead of CR most of the time
+  "Pacific/Pago_Pago", // UTC-11
+  "Asia/Kolkata", // UTC+5:30
+  "Australia/Lord_Howe", // Half-hour DST shift
+  "Europe/London",
+];
+
+// ============================================================================
+// ORACLE
+// ============================================================================
+
+const CR_FORMAT = new Intl.DateTimeFormat("en-US", {
+  timeZone: "America/Costa_Rica",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+  weekday: "long",
+  hourCycle: "h23",
+});
+
+function crParts(ms: number) {
+  const parts: Record<string, string> = {};
+  for (const p of CR_FORMAT.formatToParts(new Date(ms))) {
+    parts[p.type] = p.value;
+  }
+  return {
+    date: {
+      year: Number(parts.year),
+      month: Number(parts.month),
+      day: Number(parts.day),
+    },
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+    weekday: parts.weekday,
+  };
+}
+
+// ============================================================================
+// ARBITRARIES
+// ============================================================================
+
+// Costa Rica has had no DST since 1992, which the fixed offset relies on
+const MIN_YEAR = 1993;
+const MAX_YEAR = 2100;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+const yearArb = fc.integer({ min: MIN_YEAR, max: MAX_YEAR });
+const leapYearArb = yearArb.filter(isLeapYear);
+
+const anyDateArb = fc
+  .record({ year: yearArb, month: fc.integer({ min: 1, max: 12 }) })
+  .chain(({ year, month }) =>
+    fc
+      .integer({ min: 1, max: daysInMonth(year, month) })
+      .map((day) => makeCRDate(year, month, day)),
+  );
+
+const monthEndArb = fc
+  .record({ year: yearArb, month: fc.integer({ min: 1, max: 12 }) })
+  .map(({ year, month }) => makeCRDate(year, month, daysInMonth(year, month)));
+
+const yearEndArb = yearArb.map((year) => makeCRDate(year, 12, 31));
+const leapDayArb = leapYearArb.map((year) => makeCRDate(year, 2, 29));
+
+// Around the boundaries: the boundary day itself, or a day or two either side
+const dateArb: fc.Arbitrary<CRDate> = fc.oneof(
+  anyDateArb,
+  fc
+    .tuple(
+      fc.oneof(monthEndArb, yearEndArb, leapDayArb),
+      fc.integer({ min: -2, max: 2 }),
+    )
+    .map(([date, shift]) => addDaysCR(date, shift)),
+);
+
+// Instants within a few hours of a Costa Rica midnight, or anywhere in a day
+const instantArb = fc.oneof(
+  fc
+    .tuple(dateArb, fc.integer({ min: -3 * HOUR_MS, max: 3 * HOUR_MS }))
+    .map(([date, offset]) => crMidnightMs(date) + offset),
+  fc
+    .tuple(dateArb, fc.integer({ min: 0, max: DAY_MS - 1 }))
+    .map(([date, offset]) => crMidnightMs(date) + offset),
+);
+
+const dayShiftArb = fc.integer({ min: -800, max: 800 });
+
+// ============================================================================
+// PROPERTIES
+// ============================================================================
+
+describe.each(TIMEZONES)("time-cr with TZ=%s", (tz) => {
+  const originalTz = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = tz;
+  });
+
+  afterAll(() => {
+    if (originalTz === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = originalTz;
+    }
+  });
+
+  it("runs in the requested host timezone", () => {
+    // Compared as ICU resolves them (e.g. Asia/Kolkata is Asia/Calcutta)
+    const requested = new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(
+      requested.resolvedOptions().timeZone,
+    );
+  });
+
+  it("crDateFromInstant matches the Costa Rica calendar", () => {
+    fc.assert(
+      fc.property(instantArb, (ms) => {
+        expect(crDateFromInstant(ms)).toEqual(crParts(ms).date);
+      }),
+    );
+  });
+
+  it("crMidnightMs is 00:00:00 CR on that date, and a ms earlier is the day before", () => {
+    fc.assert(
+      fc.property(dateArb, (date) => {
+        const ms = crMidnightMs(date);
+        expect(crParts(ms)).toMatchObject({ date, time: "00:00:00" });
+        expect(crDateFromInstant(ms)).toEqual(date);
+        expect(crDateFromInstant(ms - 1)).toEqual(addDaysCR(date, -1));
+      }),
+    );
+  });
+
+  it("ymdCR is zero-padded YYYY-MM-DD of the date", () => {
+    fc.assert(
+      fc.property(dateArb, (date) => {
+        const ymd = ymdCR(date);
+        expect(ymd).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+        const [year, month, day] = ymd.split("-").map(Number);
+        expect({ year, month, day }).toEqual(date);
+      }),
+    );
+  });
+
+  it("getDayOfWeek matches the Costa Rica weekday", () => {
+    fc.assert(
+      fc.property(dateArb, (date) => {
+        expect(getDayOfWeek(date)).toBe(
+          crParts(crMidnightMs(date) + 12 * HOUR_MS).weekday,
+        );
+      }),
+    );
+  });
+
+  it("addDaysCR moves by whole Costa Rica days", () => {
+    fc.assert(
+      fc.property(dateArb, dayShiftArb, (date, days) => {
+        const expected = crParts(
+          crMidnightMs(date) + days * DAY_MS + 12 * HOUR_MS,
+        ).date;
+        expect(addDaysCR(date, days)).toEqual(expected);
+        expect(crMidnightMs(addDaysCR(date, days))).toBe(
+          crMidnightMs(date) + days * DAY_MS,
+        );
+      }),
+    );
+  });
+
+  it("addDaysCR round-trips and is consistent with daysBetweenCR", () => {
+    fc.assert(
+      fc.property(dateArb, dayShiftArb, (date, days) => {
+        const moved = addDaysCR(date, days);
+        expect(addDaysCR(moved, -days)).toEqual(date);
+        expect(daysBetweenCR(date, moved)).toBe(days);
+        expect(daysBetweenCR(moved, date) + days).toBe(0);
+      }),
+    );
+  });
+
+  it("daysBetweenCR counts midnights between two dates", () => {
+    fc.assert(
+      fc.property(dateArb, dateArb, (a, b) => {
+        expect(daysBetweenCR(a, b)).toBe(
+          Math.round((crMidnightMs(b) - crMidnightMs(a)) / DAY_MS),
+        );
+      }),
+    );
+  });
+
+  it("nextMidnightCRMs is the next 00:00 CR, or the one just passed within the tolerance", () => {
+    fc.assert(
+      fc.property(
+        instantArb,
+        fc.integer({ min: 0, max: 10 * 60_000 }),
+        (nowMs, toleranceMs) => {
+          const next = nextMidnightCRMs(nowMs, toleranceMs);
+          expect(crParts(next).time).toBe("00:00:00");
+
+          const sinceLast = nowMs - crMidnightMs(crDateFromInstant(nowMs));
+          if (sinceLast < toleranceMs) {
+            expect(next).toBe(nowMs - sinceLast);
+          } else {
+            expect(next).toBeGreaterThan(nowMs);
+            expect(next - nowMs).toBeLessThanOrEqual(DAY_MS);
+            expect(crDateFromInstant(next)).toEqual(
+              addDaysCR(crDateFromInstant(nowMs), 1),
+            );
+          }
+        },
+      ),
+    );
+  });
+
+  it("handles the named boundaries", () => {
+    const cases: Array<[CRDate, number, string, string]> = [
+      [makeCRDate(2025, 12, 31), 1, "2026-01-01", "Thursday"],
+      [makeCRDate(2024, 2, 28), 1, "2024-02-29", "Thursday"],
+      [makeCRDate(2024, 2, 29), 1, "2024-03-01", "Friday"],
+      [makeCRDate(2025, 2, 28), 1, "2025-03-01", "Saturday"],
+      [makeCRDate(2100, 2, 28), 1, "2100-03-01", "Monday"], // Not a leap year
+      [makeCRDate(2000, 2, 28), 1, "2000-02-29", "Tuesday"], // Leap year
+      [makeCRDate(2025, 10, 31), 1, "2025-11-01", "Saturday"],
+      [makeCRDate(2026, 1, 1), -1, "2025-12-31", "Wednesday"],
+    ];
+    for (const [date, days, ymd, weekday] of cases) {
+      const moved = addDaysCR(date, days);
+      expect(ymdCR(moved)).toBe(ymd);
+      expect(getDayOfWeek(moved)).toBe(weekday);
+    }
+
+    // 23:59:59.999 CR on Dec 31 is 05:59:59.999 UTC on Jan 1
+    const newYear = crMidnightMs(makeCRDate(2026, 1, 1));
+    expect(new Date(newYear).toISOString()).toBe("2026-01-01T06:00:00.000Z");
+    expect(ymdCR(crDateFromInstant(newYear - 1))).toBe("2025-12-31");
+    expect(nextMidnightCRMs(newYear - 1000, 60_000)).toBe(newYear);
+    expect(nextMidnightCRMs(newYear + 1000, 60_000)).toBe(newYear);
+    expect(nextMidnightCRMs(newYear + 61_000, 60_000)).toBe(newYear + DAY_MS);
+  });
+
+  it("rejects impossible dates", () => {
+    expect(() => makeCRDate(2025, 2, 29)).toThrow();
+    expect(() => makeCRDate(2100, 2, 29)).toThrow();
+    expect(() => makeCRDate(2025, 13, 1)).toThrow();
+    expect(() => makeCRDate(2025, 4, 31)).toThrow();
+    expect(makeCRDate(2024, 2, 29)).toEqual({ year: 2024, month: 2, day: 29 });
+  });
+});
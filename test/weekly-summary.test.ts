@@ -0,0 +1,70 @@
+/**
+ * Weekly digest: reservations matched to the configured slots
+ */
+
+import { describe, expect, it } from "vitest";
+import { buildWeeklyDigest } from "../src/weekly-summary";
+import { resolveScheduleId } from "../src/schedule-resolver";
+import { crMidnightMs, makeCRDate } from "../src/time-cr";
+import type { Reservation } from "../src/mobile-api-client";
+import type { AppConfig } from "../src/types";
+
+const MONDAY = makeCRDate(2025, 11, 17);
+const WEDNESDAY = makeCRDate(2025, 11, 19);
+const TIME_SLOT = "06:00 AM - 07:00 AM";
+
+const CONFIG = {
+  courts: {
+    court1: {
+      areaId: "5",
+      name: "Cancha de Tenis 1",
+      daysAhead: 9,
+      slots: { Wednesday: TIME_SLOT },
+    },
+    court2: {
+      areaId: "7",
+      name: "Cancha de Tenis 2",
+      daysAhead: 8,
+      slots: {},
+    },
+  },
+} as unknown as AppConfig;
+
+function reservation(overrides: Partial<Reservation>): Reservation {
+  return {
+    reservationId: "9001",
+    areaId: "5",
+    courtName: "Cancha de Tenis 1",
+    date: "2025-11-19",
+    scheduleId: resolveScheduleId("5", WEDNESDAY, TIME_SLOT),
+    timeSlot: TIME_SLOT,
+    status: "Aprobada",
+    ...overrides,
+  };
+}
+
+function wednesdayStatus(reservations: Reservation[]) {
+  const digest = buildWeeklyDigest(
+    CONFIG,
+    reservations,
+    MONDAY,
+    7,
+    crMidnightMs(MONDAY),
+  );
+  return digest.planned.find((p) => p.date === "2025-11-19")?.status;
+}
+
+describe("buildWeeklyDigest", () => {
+  it("matches by schedule ID even when the list labels the slot differently", () => {
+    expect(
+      wednesdayStatus([reservation({ timeSlot: "6:00 AM - 7:00 AM" })]),
+    ).toBe("booked");
+  });
+
+  it("does not match another slot that carries the configured label", () => {
+    const other = resolveScheduleId("5", WEDNESDAY, "07:00 AM - 08:00 AM");
+    expect(wednesdayStatus([reservation({ scheduleId: other })])).toBe(
+      "missing",
+    );
+  });
+});